@@ -0,0 +1,76 @@
+import { Engine } from './engine';
+import { IEntity, IEntityProjection, TPropKey, getEntity } from './entity';
+
+type TCommand =
+  | { type: 'spawn', entity: IEntity }
+  | { type: 'destroy', entity: IEntity }
+  | { type: 'add', entity: IEntity, key: TPropKey, value: any }
+  | { type: 'remove', entity: IEntity, key: TPropKey };
+
+/**
+ * Records structural changes to be applied by Engine at a sync point,
+ * so entity collections are not mutated while being iterated.
+ */
+export class CommandBuffer {
+  private _commands: TCommand[] = [];
+
+  get size (): number {
+    return this._commands.length;
+  }
+
+  /**
+   * Returns the entity right away. It's added to the engine when commands are applied
+   */
+  spawn (candidate?: IEntity | IEntityProjection | null): IEntity {
+    const entity = getEntity(candidate || {});
+    this._commands.push({ type: 'spawn', entity });
+    return entity;
+  }
+
+  destroy (entity: IEntity) {
+    this._commands.push({ type: 'destroy', entity });
+  }
+
+  add (entity: IEntity, key: TPropKey, value: any) {
+    this._commands.push({ type: 'add', entity, key, value });
+  }
+
+  remove (entity: IEntity, key: TPropKey) {
+    this._commands.push({ type: 'remove', entity, key });
+  }
+
+  /**
+   * Applies recorded commands in order and empties the buffer.
+   * Commands recorded during application are applied as well.
+   */
+  apply (engine: Engine) {
+    while (this._commands.length) {
+      const commands = this._commands;
+      this._commands = [];
+
+      for (const command of commands) {
+        const entity = getEntity(command.entity);
+        switch (command.type) {
+          case 'spawn':
+            engine.addEntity(entity);
+            break;
+          case 'destroy':
+            engine.removeEntity(entity);
+            break;
+          case 'add':
+            // @ts-ignore
+            entity[command.key] = command.value;
+            break;
+          case 'remove':
+            // @ts-ignore
+            delete entity[command.key];
+            break;
+        }
+      }
+    }
+  }
+
+  clear () {
+    this._commands = [];
+  }
+}
@@ -0,0 +1,50 @@
+import { IEntity } from './entity';
+import { TEntities, TEntityPredicate } from './system';
+
+/**
+ * Registry of component types used to type system requirements.
+ * Augment it to get typed `System.entities` and compile-time checked component names:
+ * ```ts
+ * declare module 'eaciest/dist/types/component-map' {
+ *   interface ComponentMap {
+ *     location: { x: number, y: number };
+ *   }
+ * }
+ * ```
+ */
+export interface ComponentMap {}
+
+/**
+ * Known component names. Any string until ComponentMap is augmented
+ */
+export type TComponentName = [keyof ComponentMap] extends [never] ? string : keyof ComponentMap;
+
+export type TComponentConstraint = TComponentName | symbol | TEntityPredicate;
+
+/**
+ * Requirements checked against ComponentMap
+ */
+export type TComponentRequirements = Record<string, TComponentConstraint | TComponentConstraint[]>;
+
+type TListComponents<L, M> = L extends ReadonlyArray<infer C>
+  ? Extract<C, keyof M>
+  : Extract<L, keyof M>;
+
+/**
+ * Entity matched by the requirement list, e.g. `TEntityOf<['location', 'velocity']>`
+ */
+export type TEntityOf<L, M = ComponentMap> = IEntity & {
+  [K in TListComponents<L, M>]: M[K];
+};
+
+/**
+ * Collections of a system with requirements `R`.
+ * Falls back to untyped collections when `R` is not known.
+ */
+export type TTypedEntities<R, M = ComponentMap> = 0 extends (1 & R)
+  ? TEntities
+  : R extends null
+    ? TEntities
+    : string extends keyof R
+      ? TEntities
+      : { [K in keyof R]: Iterable<TEntityOf<R[K], M>> };
@@ -1,6 +1,48 @@
-import { System, TEntityRequirements} from "./system";
-import { ENGINE, IEntity, getEntity, IEntityProjection, DELETED_PROPS, TPropKey, ENTITY_ID } from "./entity";
+import { IRequirementOwner, System, TEntityRequirementList } from "./system";
+import {
+  ENGINE,
+  IEntity,
+  getEntity,
+  IEntityProjection,
+  DELETED_PROPS,
+  ADDED_PROPS,
+  CHANGED_PROPS,
+  REMOVED_PROPS,
+  TAGS,
+  TARGET,
+  TPropKey,
+  ENTITY_ID,
+  ENTITY_HANDLE,
+  IEntityHandle,
+  trackAllPropsAdded,
+  clearTrackedChanges,
+  getComponentKeys,
+} from "./entity";
 import { SimplifiedSystem, TSystemUpdateMethod } from './simplified-system';
+import { TComponentRequirements } from './component-map';
+import { IQuerySubscriber, QueryIndex } from './query-index';
+import { IQueryDescriptor, Query } from './query';
+import { SortedEntitySet } from './sorted-collection';
+import { SceneManager } from './scenes';
+import { Timer, TimerScheduler, TTimerCallback } from './timers';
+import { sortSystems } from './system-order';
+import { CommandBuffer } from './command-buffer';
+import { EventBus } from './events';
+import { IEngineObserver, ObserverRegistry, TUnsubscribe } from './observers';
+import { IEngineStats, Profiler } from './profiler';
+import { IPrefabDefinition, PrefabRegistry, mergeComponents } from './prefabs';
+import { Hierarchy } from './hierarchy';
+import { RelationRegistry } from './relations';
+import { ResourceRegistry } from './resources';
+import { TagRegistry, getTagKey } from './tags';
+import { ISystemErrorContext, SystemDisabled, TSystemErrorAction, TSystemErrorPolicy } from './error-policy';
+import {
+  ComponentCodecRegistry,
+  ICodecContext,
+  IWorldDocument,
+  WORLD_DOCUMENT_VERSION,
+} from './serialization';
+import { IEntitySnapshot, IWorldSnapshot, cloneComponent } from './snapshot';
 
 interface IEngineOptions {
   // Postpones entity's affiliation to systems check
@@ -12,8 +54,34 @@ interface IEngineOptions {
 
   // If true - setting property to undefined deletes property from the entity
   deleteVoidProps: boolean;
+
+  // Time delta passed to systems with `fixedStep` enabled
+  fixedTimeStep: number;
+
+  // Limits fixed steps per Engine.update() call. Excess accumulated time is dropped
+  maxSubSteps: number;
+
+  // Order of named stages systems are registered into (see System.stage)
+  stages: string[];
+
+  // Frames an event stays in queue if not consumed by all readers
+  eventMaxAge: number;
+
+  // Reaction to exceptions thrown by System.update()
+  errorPolicy: TSystemErrorPolicy;
+
+  // Enables profiler from the start
+  profile: boolean;
+
+  // Default for Engine.removeEntity() `cascade` argument
+  cascadeRemove: boolean;
+
+  // Component holding seconds left before the entity is removed. Disabled by default (`null`)
+  lifetimeComponent: string | null;
 }
 
+export const DEFAULT_STAGES = ['preUpdate', 'update', 'postUpdate', 'render'];
+
 type TSystemConstructor = new (...args: any[]) => System;
 
 
@@ -21,60 +89,442 @@ export class Engine {
   options: Readonly<IEngineOptions>;
   private _systems: System[] = [];
 
+  private _stageOrder: string[];
+  // Order of addition used as the last ordering tie-breaker
+  private _systemsSequence: Map<System, number> = new Map();
+  private _systemsCounter = 0;
+  private _systemsByStage: Map<string, System[]> = new Map();
+
   private _entitiesStore: Set<IEntity> = new Set<IEntity>();
 
   get entities (): Set<IEntity> {
     return this._entitiesStore;
   }
 
-  private _dt: number = 0;
+  private _unscaledDt: number = 0;
+  /**
+   * Time delta of the current update scaled by `timeScale`. Zero while paused
+   */
   get dt (): number {
-    return this._dt;
+    return this._paused ? 0 : this._unscaledDt * this.timeScale;
+  }
+
+  /**
+   * Time delta passed to the current Engine.update() call
+   */
+  get unscaledDt (): number {
+    return this._unscaledDt;
+  }
+
+  /**
+   * Multiplier of time delta passed to systems, e.g. 0.5 for slow motion
+   */
+  timeScale: number = 1;
+
+  private _paused = false;
+  get paused (): boolean {
+    return this._paused;
+  }
+
+  private _frame: number = 0;
+  /**
+   * Number of Engine.update() calls
+   */
+  get frame (): number {
+    return this._frame;
+  }
+
+  // Consecutive failures and frame to retry at for systems under retry policy
+  private _systemRetries: Map<System, { failures: number, retryFrame: number }> = new Map();
+
+  // Time not yet consumed by fixed steps
+  private _accumulator: number = 0;
+  // Unscaled time not yet consumed by fixed steps of systems ignoring pause
+  private _pausedAccumulator: number = 0;
+
+  private _alpha: number = 0;
+  /**
+   * Interpolation factor between the last two fixed steps in [0, 1) range.
+   * Intended for variable rate systems (e.g. rendering)
+   */
+  get alpha (): number {
+    return this._alpha;
   }
 
   private _entitiesRefreshQueue: Set<IEntity> = new Set<IEntity>();
+  // Entities to be released by change selectors on the next update
+  private _entitiesReleaseQueue: Set<IEntity> = new Set<IEntity>();
+  // Entities with changes refreshed while stages run. Systems of the frame have seen their changes
+  private _entitiesRefreshedMidFrame: Set<IEntity> = new Set<IEntity>();
+  private _isRunningStages = false;
   private _entitiesToAddQueue  : Set<IEntity> = new Set<IEntity>();
+  // Entities with non-empty added/changed/removed component sets
+  private _entitiesWithChanges : Set<IEntity> = new Set<IEntity>();
+  // Set when any system requires on_added() / on_changed() / on_removed()
+  private _hasChangeSelectors = false;
+  // Set when any system requires child_of() / has_parent
+  private _hasHierarchySelectors = false;
+  // Set when any system requires related() / related_to()
+  private _hasRelationSelectors = false;
+
+  private _hierarchy: Hierarchy = new Hierarchy();
+  private _relations: RelationRegistry = new RelationRegistry();
+
+  // Component keys changed since entity's last refresh. `null` requests full refresh
+  private _entitiesChangedKeys: Map<IEntity, Set<TPropKey> | null> = new Map();
+
+  private _queryIndex: QueryIndex = new QueryIndex();
+
+  // System collections reordered when their sort keys change
+  private _sortedCollections: Set<SortedEntitySet> = new Set();
+
+  readonly events: EventBus;
+
+  readonly observers: ObserverRegistry = new ObserverRegistry();
+
+  /**
+   * World-wide singletons. Systems list the ones they depend on in `System.resources`
+   */
+  readonly resources: ResourceRegistry = new ResourceRegistry(this.observers);
+
+  /**
+   * Opt-in per-system timing. Toggled with `profiler.enabled`
+   */
+  readonly profiler: Profiler = new Profiler();
+
+  /**
+   * Structural changes applied at the next sync point (before each stage).
+   * Systems have their own buffer applied right after their update.
+   */
+  readonly commands: CommandBuffer = new CommandBuffer();
+
+  readonly prefabs: PrefabRegistry = new PrefabRegistry();
+
+  /**
+   * Groups of entities and systems loaded and unloaded as a unit
+   */
+  readonly scenes: SceneManager = new SceneManager(this);
+
+  /**
+   * Callbacks driven by scaled time of Engine.update()
+   */
+  readonly timers: TimerScheduler = new TimerScheduler();
+
+  private _lifetimeQuery: Query | null = null;
+
+  /**
+   * Bit indexes of tags. See Engine.tag()
+   */
+  readonly tags: TagRegistry = new TagRegistry();
+
+  /**
+   * Codecs used by serialize() and load() for non JSON-safe components
+   */
+  readonly codecs: ComponentCodecRegistry = new ComponentCodecRegistry();
 
   private _watchedProperties: Set<TPropKey> = new Set<TPropKey>();
 
   private entityIdCounter = 1;
   protected getNextEntityID () { return this.entityIdCounter++; }
 
+  private _entitiesById: Map<number, IEntity> = new Map<number, IEntity>();
+
+  // Generational handle slots
+  private _handleSlots: Array<IEntity | undefined> = [];
+  private _handleGenerations: number[] = [];
+  private _freeHandleIndexes: number[] = [];
+
   constructor (options: Partial<IEngineOptions> = {}) {
     this.options = {
       lazyEntityRefresh: true,
       lazyEntityAdd    : false,
       deleteVoidProps  : false,
+      fixedTimeStep    : 1 / 60,
+      maxSubSteps      : 5,
+      stages           : DEFAULT_STAGES,
+      eventMaxAge      : 2,
+      errorPolicy      : 'disable',
+      profile          : false,
+      cascadeRemove    : false,
+      lifetimeComponent: null,
       ...options
     } as const;
+
+    this.profiler.enabled = this.options.profile;
+
+    this.events = new EventBus(this.options.eventMaxAge);
+
+    this._stageOrder = [...this.options.stages];
+
+    if (this.options.lifetimeComponent !== null) {
+      this._lifetimeQuery = this.query({ all: [this.options.lifetimeComponent] });
+    }
   }
 
   /**
-   * Runs all registered systems with provided time delta value
+   * Runs all registered systems with provided time delta value.
+   * Systems run stage by stage. Add and refresh queues are processed before each stage.
+   * Within a stage systems with `fixedStep` enabled run first, zero or more times
+   * with `options.fixedTimeStep` delta, the rest run once with `dt`.
    */
   update (dt: number) {
-    this._dt = dt;
+    this._unscaledDt = dt;
+    this._frame++;
+
+    const profile = this.profiler.enabled;
+    if (profile) {
+      this.profiler.beginFrame(this._entitiesRefreshQueue.size, this._entitiesToAddQueue.size);
+    }
+
+    this.events.update();
+
+    this.commands.apply(this);
 
     this.processAddQueue();
 
+    this._releaseRefreshedMidFrame();
+
+    this._processReleaseQueue();
+
     this.processChangedQueue();
 
+    this.flushChanges();
+
+    this.timers.update(this.dt);
+    this._updateLifetimes(this.dt);
+
+    const steps = this._consumeFixedSteps(this.dt);
+    this._isRunningStages = true;
+    try {
+      for (const stage of this._stageOrder) {
+        for (let step = 0; step < steps; step++) {
+          this._runStageSystems(stage, true);
+        }
+        this._runStageSystems(stage, false);
+      }
+    } finally {
+      this._isRunningStages = false;
+    }
+
+    if (profile) {
+      this.profiler.endFrame(this._systems);
+    }
+  };
+
+  /**
+   * Rolling window statistics collected while profiler is enabled
+   */
+  stats (): IEngineStats {
+    return this.profiler.stats();
+  }
+
+  /**
+   * Calls `callback` once after `delay` seconds of scaled engine time
+   */
+  schedule (delay: number, callback: TTimerCallback): Timer {
+    return this.timers.schedule(delay, callback);
+  }
+
+  /**
+   * Calls `callback` every `interval` seconds of scaled engine time until cancelled
+   */
+  every (interval: number, callback: TTimerCallback): Timer {
+    return this.timers.every(interval, callback);
+  }
+
+  /**
+   * Counts down lifetime components removing expired entities
+   */
+  private _updateLifetimes (dt: number) {
+    if (!this._lifetimeQuery?.size) {
+      return;
+    }
+
+    const key = this.options.lifetimeComponent!;
+    const expired: IEntity[] = [];
+    for (const entity of this._lifetimeQuery) {
+      if (typeof entity[key] !== 'number') {
+        continue;
+      }
+      entity[key] -= dt;
+      if (entity[key] <= 0) {
+        expired.push(entity);
+      }
+    }
+
+    for (const entity of expired) {
+      this.removeEntity(entity);
+    }
+  }
+
+  /**
+   * Stops systems which don't have `ignorePause` set. Queues are still processed on update.
+   */
+  pause () {
+    this._paused = true;
+  }
+
+  resume () {
+    this._paused = false;
+  }
+
+  /**
+   * Runs systems of a single stage once, e.g. rendering while the game is paused.
+   * Fixed step systems receive `options.fixedTimeStep` delta.
+   */
+  runStage (stage: string, dt: number = this._unscaledDt) {
+    this._assertStage(stage);
+
+    this._processQueues();
+
+    for (const system of this._systemsByStage.get(stage) || []) {
+      this.updateSystem(system, system.fixedStep ? this.options.fixedTimeStep : dt);
+    }
+  }
+
+  getStageOrder (): readonly string[] {
+    return this._stageOrder;
+  }
+
+  setStageOrder (stages: string[]) {
     for (const system of this._systems) {
+      if (!stages.includes(system.stage)) {
+        throw new Error(`Stage "${system.stage}" of registered system is missing in the new order`);
+      }
+    }
+    this._stageOrder = [...stages];
+  }
+
+  private _runStageSystems (stage: string, fixedStep: boolean) {
+    const systems = this._systemsByStage.get(stage)
+      ?.filter(system => system.fixedStep === fixedStep && (!this._paused || system.ignorePause));
+    if (!systems?.length) {
+      return;
+    }
+
+    this._processQueues();
+
+    for (const system of systems) {
       this.updateSystem(system);
     }
-  };
+  }
 
-  updateSystem (system: System) {
+  /**
+   * Delta the system asked for: fixed or variable, scaled by engine and system time scales.
+   * Fixed step systems are not affected by engine time scale, it changes amount of steps instead.
+   */
+  getSystemDelta (system: System): number {
+    if (system.fixedStep) {
+      return this.options.fixedTimeStep * system.timeScale;
+    }
+    const dt = system.unscaledTime ? this._unscaledDt : this._unscaledDt * this.timeScale;
+    return dt * system.timeScale;
+  }
+
+  /**
+   * Flush point between stages
+   */
+  private _processQueues () {
+    this.commands.apply(this);
+    this.processAddQueue();
+    this.processChangedQueue();
+  }
+
+  /**
+   * Returns amount of fixed steps to run for the time delta.
+   * While paused only systems ignoring pause run, they consume unscaled time
+   * from a separate accumulator so `alpha` of paused systems stays intact.
+   */
+  private _consumeFixedSteps (dt: number): number {
+    const { fixedTimeStep } = this.options;
+
+    if (this._paused) {
+      const [steps, rest] = this._splitFixedSteps(this._pausedAccumulator + this._unscaledDt);
+      this._pausedAccumulator = rest;
+      return steps;
+    }
+
+    const [steps, rest] = this._splitFixedSteps(this._accumulator + dt);
+    this._accumulator = rest;
+    this._alpha = rest / fixedTimeStep;
+
+    return steps;
+  }
+
+  private _splitFixedSteps (accumulated: number): [number, number] {
+    const { fixedTimeStep, maxSubSteps } = this.options;
+
+    let steps = 0;
+    while (accumulated >= fixedTimeStep && steps < maxSubSteps) {
+      accumulated -= fixedTimeStep;
+      steps++;
+    }
+
+    // Prevents spiral of death when steps take longer than they simulate
+    if (accumulated >= fixedTimeStep) {
+      accumulated %= fixedTimeStep;
+    }
+
+    return [steps, accumulated];
+  }
+
+  updateSystem (system: System, dt: number = this.getSystemDelta(system)) {
     if (!system.enabled || !system.isQualifiedForUpdate()) return;
 
+    const retry = this._systemRetries.get(system);
+    if (retry && this._frame < retry.retryFrame) return;
+
+    const profile = this.profiler.enabled;
+    const profileStart = profile ? this.profiler.beginSystem() : 0;
+
     try {
-      system.update(this._dt);
+      system.update(dt);
+      if (profile) {
+        this.profiler.endSystem(system, profileStart);
+      }
+      system.commands.apply(this);
+      if (retry) {
+        this._systemRetries.delete(system);
+      }
     } catch (err) {
-      console.error(err);
-      system.enabled = false;
+      system.commands.clear();
+      this._handleSystemError(system, err, dt);
     }
   }
 
+  private _handleSystemError (system: System, error: unknown, dt: number) {
+    system.errorCount++;
+
+    const context: ISystemErrorContext = { system, error, frame: this._frame, dt };
+    const { errorPolicy } = this.options;
+    const action: TSystemErrorAction = typeof errorPolicy === 'function'
+      ? errorPolicy(system, error, context) || 'skip'
+      : errorPolicy;
+
+    if (action === 'rethrow') {
+      throw error;
+    }
+
+    if (action === 'disable') {
+      console.error(error);
+      this._disableSystem(context);
+    } else if (typeof action === 'object' && action.type === 'retry') {
+      const failures = (this._systemRetries.get(system)?.failures ?? 0) + 1;
+      if (failures > action.maxAttempts) {
+        this._systemRetries.delete(system);
+        this._disableSystem(context);
+      } else {
+        const retryFrame = this._frame + action.delay * 2 ** (failures - 1);
+        this._systemRetries.set(system, { failures, retryFrame });
+      }
+    }
+  }
+
+  private _disableSystem (context: ISystemErrorContext) {
+    context.system.enabled = false;
+    this.events.emit(SystemDisabled, context);
+  }
+
 
   addEntity (
     candidate?: IEntity | IEntityProjection | null,
@@ -92,11 +542,19 @@ export class Engine {
 
     const preAssignedEngine = entity[ENGINE];
     if (preAssignedEngine && preAssignedEngine !== this) {
-      preAssignedEngine.removeEntity(entity);
+      preAssignedEngine.removeEntity(entity, false);
     }
 
+    return this._insertEntity(entity, this.getNextEntityID(), lazy);
+  }
+
+  private _insertEntity (entity: IEntity, id: number, lazy: boolean): IEntity {
     entity[ENGINE] = this;
-    entity[ENTITY_ID] = this.getNextEntityID();
+    entity[ENTITY_ID] = id;
+    this._entitiesById.set(id, entity);
+    entity[ENTITY_HANDLE] = this._allocateHandle(entity);
+
+    trackAllPropsAdded(entity);
 
     if (lazy) {
       this._entitiesToAddQueue.add(entity);
@@ -105,13 +563,408 @@ export class Engine {
       this._markEntityChanged(entity);
     }
 
+    if (this.observers.size) {
+      this.observers.entityAdded(entity, getComponentKeys(entity));
+    }
+
+    return entity;
+  }
+
+  registerPrefab (name: string, definition: IPrefabDefinition) {
+    this.prefabs.register(name, definition);
+  }
+
+  /**
+   * Adds entity built from deep copies of prefab components merged with `overrides`.
+   * Child prefabs are spawned first, assigned to the entity under their keys
+   * and attached to it as hierarchy children.
+   */
+  spawn (name: string, overrides: IEntityProjection = {}): IEntity {
+    // Checked up front so no entities are added for an invalid prefab
+    this.prefabs.assertChildrenAcyclic(name);
+    return this._spawnPrefab(name, overrides);
+  }
+
+  private _spawnPrefab (name: string, overrides: IEntityProjection = {}): IEntity {
+    const { components, children } = this.prefabs.resolve(name);
+
+    const spawned: IEntity[] = [];
+    for (const [key, child] of Object.entries(children)) {
+      components[key] = this._spawnPrefab(child.prefab, child.overrides);
+      spawned.push(components[key]);
+    }
+
+    const entity = this.addEntity(mergeComponents(components, overrides));
+    for (const child of spawned) {
+      this.setParent(child, entity);
+    }
+
     return entity;
   }
 
-  addHandler (updateFn: TSystemUpdateMethod, requirements: TEntityRequirements = null) {
-    const system: System = new SimplifiedSystem(updateFn, requirements);
+  /**
+   * Attaches `child` to `parent`. Passing `null` detaches the child.
+   * Both entities have to belong to the engine.
+   */
+  setParent (child: IEntity, parent: IEntity | null) {
+    child = getEntity(child);
+    parent = parent && getEntity(parent);
+
+    if (child[ENGINE] !== this || (parent && parent[ENGINE] !== this)) {
+      throw new Error(`Entity doesn't belong to the engine`);
+    }
+
+    this._hierarchy.setParent(child, parent);
+    if (this._hasHierarchySelectors) {
+      this._markPredicatesChanged(child);
+    }
+  }
+
+  getParent (entity: IEntity): IEntity | undefined {
+    return this._hierarchy.getParent(getEntity(entity));
+  }
+
+  getChildren (entity: IEntity): IEntity[] {
+    return this._hierarchy.getChildren(getEntity(entity));
+  }
+
+  /**
+   * Returns children, their children and so on, depth-first
+   */
+  getDescendants (entity: IEntity): IEntity[] {
+    return this._hierarchy.getDescendants(getEntity(entity));
+  }
+
+  /**
+   * Sets zero-data flag on the entity.
+   * Unlike components tags are stored in per-entity bitset and matched by `tagged()` with a bitmask.
+   */
+  tag (entity: IEntity, tag: string) {
+    entity = getEntity(entity);
+    if (entity[ENGINE] !== this) {
+      throw new Error(`Entity doesn't belong to the engine`);
+    }
+
+    if (this.tags.set(entity, tag)) {
+      this._markPropChanged(entity, getTagKey(tag));
+    }
+  }
+
+  untag (entity: IEntity, tag: string) {
+    entity = getEntity(entity);
+    if (this.tags.clear(entity, tag)) {
+      this._markPropChanged(entity, getTagKey(tag));
+    }
+  }
+
+  hasTag (entity: IEntity, tag: string): boolean {
+    return this.tags.has(getEntity(entity), tag);
+  }
+
+  getTags (entity: IEntity): string[] {
+    return this.tags.getNames(getEntity(entity)[TAGS]);
+  }
+
+  /**
+   * Adds named relation from `source` to `target`, e.g. `relate(turret, 'targets', enemy)`.
+   * Relation is dropped once either entity is removed.
+   */
+  relate (source: IEntity, relation: string, target: IEntity) {
+    source = getEntity(source);
+    target = getEntity(target);
+
+    if (source[ENGINE] !== this || target[ENGINE] !== this) {
+      throw new Error(`Entity doesn't belong to the engine`);
+    }
+
+    if (this._relations.add(source, relation, target) && this._hasRelationSelectors) {
+      this._markPredicatesChanged(source);
+    }
+  }
+
+  /**
+   * Omitting `target` drops all relations of the kind
+   */
+  unrelate (source: IEntity, relation: string, target?: IEntity) {
+    source = getEntity(source);
+    const targets = typeof target === 'undefined'
+      ? this._relations.getTargets(source, relation)
+      : [getEntity(target)];
+
+    let changed = false;
+    for (const x of targets) {
+      changed = this._relations.delete(source, relation, x) || changed;
+    }
+
+    if (changed && this._hasRelationSelectors) {
+      this._markPredicatesChanged(source);
+    }
+  }
+
+  hasRelation (source: IEntity, relation: string, target?: IEntity): boolean {
+    return this._relations.has(getEntity(source), relation, target && getEntity(target));
+  }
+
+  /**
+   * Returns targets of the `source` relations of the kind
+   */
+  getRelated (source: IEntity, relation: string): IEntity[] {
+    return this._relations.getTargets(getEntity(source), relation);
+  }
+
+  /**
+   * Returns entities having relation of the kind to `target`
+   */
+  getRelatedFrom (target: IEntity, relation: string): IEntity[] {
+    return this._relations.getSources(getEntity(target), relation);
+  }
+
+  /**
+   * Returns live set of entities matching the descriptor, e.g.
+   * `engine.query({ all: ['location'], none: ['static'] })`.
+   * Call `dispose()` once the query is not needed.
+   */
+  query (descriptor: IQueryDescriptor): Query {
+    return new Query(this, descriptor);
+  }
+
+  /**
+   * Called by Query. Returns members of the shared indexed query
+   */
+  _subscribeQuery (requirementList: TEntityRequirementList, subscriber: IQuerySubscriber): Set<IEntity> {
+    return this._queryIndex.subscribe(requirementList, this._entitiesStore, subscriber).members;
+  }
+
+  _unsubscribeQuery (owner: IRequirementOwner) {
+    this._queryIndex.unsubscribe(owner);
+  }
+
+  /**
+   * Registers entity and component lifecycle callbacks.
+   * Returns a function which unsubscribes the observer.
+   */
+  observe (observer: IEngineObserver): TUnsubscribe {
+    return this.observers.add(observer);
+  }
+
+  /**
+   * Produces JSON-safe document of all entities and their components.
+   * Symbol keyed components are included only if registered in `codecs`.
+   */
+  serialize (): IWorldDocument {
+    const context = this._getCodecContext(new Map());
+    const entities = [...this._entitiesStore, ...this._entitiesToAddQueue];
+
+    return {
+      version     : WORLD_DOCUMENT_VERSION,
+      nextEntityId: this.entityIdCounter,
+      entities    : entities.map(entity => this.codecs.encodeEntity(entity, entity[ENTITY_ID]!, context)),
+      parents     : this._hierarchy.capture().map(([child, parent]) => [child[ENTITY_ID]!, parent[ENTITY_ID]!]),
+      relations   : this._relations.capture().map(([source, relation, target]) => [
+        source[ENTITY_ID]!,
+        relation,
+        target[ENTITY_ID]!,
+      ]),
+      tags        : entities
+        .filter(entity => entity[TAGS]?.some(word => word !== 0))
+        .map(entity => [entity[ENTITY_ID]!, this.getTags(entity)]),
+    };
+  }
+
+  /**
+   * Adds entities from the document keeping their IDs
+   */
+  load (doc: IWorldDocument): IEntity[] {
+    if (doc.version !== WORLD_DOCUMENT_VERSION) {
+      throw new Error(`Unsupported world document version ${doc.version}`);
+    }
+
+    const loaded = new Map<number, IEntity>();
+    for (const { id } of doc.entities) {
+      if (this._entitiesById.has(id) || loaded.has(id)) {
+        throw new Error(`Entity ID ${id} is already taken`);
+      }
+      loaded.set(id, getEntity({}));
+    }
 
-    return this.addSystem(system);
+    const context = this._getCodecContext(loaded);
+    for (const data of doc.entities) {
+      this.codecs.decodeEntity(data, loaded.get(data.id)!, context);
+    }
+
+    for (const [id, entity] of loaded) {
+      this._insertEntity(entity, id, this.options.lazyEntityAdd);
+    }
+
+    const resolve = (id: number): IEntity => {
+      const entity = loaded.get(id) || this._entitiesById.get(id);
+      if (!entity) {
+        throw new Error(`Unknown entity ID ${id}`);
+      }
+      return entity;
+    };
+
+    for (const [childId, parentId] of doc.parents || []) {
+      this.setParent(resolve(childId), resolve(parentId));
+    }
+
+    for (const [sourceId, relation, targetId] of doc.relations || []) {
+      this.relate(resolve(sourceId), relation, resolve(targetId));
+    }
+
+    for (const [id, tags] of doc.tags || []) {
+      for (const tag of tags) {
+        this.tag(resolve(id), tag);
+      }
+    }
+
+    this.entityIdCounter = Math.max(this.entityIdCounter, doc.nextEntityId);
+
+    return [...loaded.values()];
+  }
+
+  /**
+   * Captures in-memory state of all entities, queues and system collections.
+   * Component values are deep copied (see `cloneComponent()`) unless codec provides `clone()`.
+   */
+  snapshot (): IWorldSnapshot {
+    const entities: IEntitySnapshot[] = [];
+    for (const entity of [...this._entitiesStore, ...this._entitiesToAddQueue]) {
+      entities.push({
+        entity,
+        id               : entity[ENTITY_ID]!,
+        handle           : entity[ENTITY_HANDLE],
+        components       : getComponentKeys(entity).map(key => [key, this._cloneComponent(key, (entity as any)[key])]),
+        deletedComponents: [...entity[DELETED_PROPS]],
+        added            : [...entity[ADDED_PROPS]],
+        changed          : [...entity[CHANGED_PROPS]],
+        removed          : [...entity[REMOVED_PROPS]],
+        tags             : entity[TAGS] && [...entity[TAGS]!],
+      });
+    }
+
+    const collections = new Map<System, Record<string, IEntity[]>>();
+    for (const system of this._systems) {
+      collections.set(system, system._captureCollections());
+    }
+
+    return {
+      entityIdCounter  : this.entityIdCounter,
+      entities,
+      store            : [...this._entitiesStore],
+      addQueue         : [...this._entitiesToAddQueue],
+      refreshQueue     : [...this._entitiesRefreshQueue],
+      releaseQueue     : [...this._entitiesReleaseQueue],
+      refreshedMidFrame: [...this._entitiesRefreshedMidFrame],
+      withChanges      : [...this._entitiesWithChanges],
+      changedKeys      : [...this._entitiesChangedKeys].map(([entity, keys]) => [entity, keys && [...keys]]),
+      handleSlots      : [...this._handleSlots],
+      handleGenerations: [...this._handleGenerations],
+      freeHandleIndexes: [...this._freeHandleIndexes],
+      queries          : this._queryIndex.captureMembers(),
+      parents          : this._hierarchy.capture(),
+      relations        : this._relations.capture(),
+      collections,
+    };
+  }
+
+  /**
+   * Brings the world back to the snapshot state.
+   * Entities keep their identity. System collections are restored
+   * without firing onEntityAdded() / onEntityRemoved().
+   * Snapshot can be restored multiple times.
+   */
+  restore (snapshot: IWorldSnapshot) {
+    const restored = new Set<IEntity>();
+    for (const data of snapshot.entities) {
+      restored.add(data.entity);
+    }
+
+    const dropped: IEntity[] = [];
+    for (const entity of [...this._entitiesStore, ...this._entitiesToAddQueue]) {
+      if (!restored.has(entity)) {
+        dropped.push(entity);
+        delete entity[TARGET][ENGINE];
+      }
+    }
+
+    this._entitiesById.clear();
+    for (const data of snapshot.entities) {
+      this._restoreEntity(data);
+      this._entitiesById.set(data.id, data.entity);
+    }
+
+    this.entityIdCounter = snapshot.entityIdCounter;
+    this._entitiesStore = new Set(snapshot.store);
+    this._entitiesToAddQueue = new Set(snapshot.addQueue);
+    this._entitiesRefreshQueue = new Set(snapshot.refreshQueue);
+    this._entitiesReleaseQueue = new Set(snapshot.releaseQueue);
+    this._entitiesRefreshedMidFrame = new Set(snapshot.refreshedMidFrame);
+    this._entitiesWithChanges = new Set(snapshot.withChanges);
+    this._entitiesChangedKeys = new Map(snapshot.changedKeys.map(([entity, keys]) => [entity, keys && new Set(keys)]));
+    this._handleSlots = [...snapshot.handleSlots];
+    this._handleGenerations = [...snapshot.handleGenerations];
+    this._freeHandleIndexes = [...snapshot.freeHandleIndexes];
+    this._hierarchy.restore(snapshot.parents);
+    this._relations.restore(snapshot.relations);
+
+    this._queryIndex.restoreMembers(snapshot.queries, restored, dropped);
+
+    // Systems added after the snapshot are rebuilt from restored queries they share
+    for (const system of this._systems) {
+      system._restoreCollections(snapshot.collections.get(system) || this._queryIndex.getSystemMembers(system));
+    }
+  }
+
+  private _restoreEntity (data: IEntitySnapshot) {
+    // Writing to the target directly bypasses change tracking
+    const target: any = data.entity[TARGET];
+
+    for (const key of getComponentKeys(target)) {
+      delete target[key];
+    }
+    for (const [key, value] of data.components) {
+      target[key] = this._cloneComponent(key, value);
+    }
+
+    target[ENGINE] = this;
+    target[ENTITY_ID] = data.id;
+    target[ENTITY_HANDLE] = data.handle;
+    target[DELETED_PROPS] = new Map(data.deletedComponents);
+    target[ADDED_PROPS] = new Set(data.added);
+    target[CHANGED_PROPS] = new Set(data.changed);
+    target[REMOVED_PROPS] = new Set(data.removed);
+    target[TAGS] = data.tags && [...data.tags];
+  }
+
+  private _cloneComponent (key: TPropKey, value: any) {
+    const codec = this.codecs.get(key);
+    return codec?.clone ? codec.clone(value) : cloneComponent(value);
+  }
+
+  private _getCodecContext (loaded: Map<number, IEntity>): ICodecContext {
+    return {
+      engine: this,
+      getEntityId: (entity: IEntity) => {
+        entity = getEntity(entity);
+        return entity[ENGINE] === this ? entity[ENTITY_ID] : undefined;
+      },
+      getEntity: (id: number) => loaded.get(id) ?? this.getEntityById(id),
+    };
+  }
+
+  /**
+   * Component names of `requirements` are checked against ComponentMap
+   * and `this.entities` of the handler is typed accordingly
+   */
+  addHandler<R extends TComponentRequirements | null = null> (
+    updateFn: TSystemUpdateMethod<R>,
+    requirements: R | null = null,
+  ): System<R> {
+    const system = new SimplifiedSystem<R>(updateFn, requirements);
+
+    this.addSystem(system);
+    return system;
   }
 
   addSystemClass (Class: TSystemConstructor, ...args: any[]) {
@@ -125,22 +978,54 @@ export class Engine {
     if (!Engine.isSystemConstructor(system.constructor)) {
       throw new Error(`Provided class instance doesn't inherit System`);
     }
+    this._assertStage(system.stage);
+
+    this._systemsSequence.set(system, this._systemsCounter++);
+    let sorted: System[];
+    try {
+      sorted = sortSystems([...this._systems, system], x => this._systemsSequence.get(x)!);
+    } catch (err) {
+      this._systemsSequence.delete(system);
+      throw err;
+    }
+
     system.setEngine(this);
     system.initialize();
 
-    this._systems.push(system);
+    this._systems = sorted;
+
+    this._queryIndex.addSystem(system, this._entitiesStore);
 
-    for (const entity of this._entitiesStore) {
-      system.refreshEntityStatus(entity);
+    for (const collection of system._getSortedCollections()) {
+      this._sortedCollections.add(collection);
+      for (const key of collection.watchedKeys) {
+        this.addWatchedProperty(key);
+      }
     }
 
-    this._systems.sort((a, b) => {
-      return a.priority - b.priority;
-    });
+    this._groupSystemsByStage();
 
     return system;
   }
 
+  private _groupSystemsByStage () {
+    this._systemsByStage.clear();
+    for (const system of this._systems) {
+      const systems = this._systemsByStage.get(system.stage);
+      if (systems) {
+        systems.push(system);
+      } else {
+        this._systemsByStage.set(system.stage, [system]);
+      }
+    }
+  }
+
+  private _assertStage (stage: string) {
+    if (!this._stageOrder.includes(stage)) {
+      throw new Error(`Unknown stage "${stage}"`);
+    }
+  }
+
   processAddQueue () {
     for (const entity of this._entitiesToAddQueue) {
       this.entities.add(entity);
@@ -156,6 +1041,26 @@ export class Engine {
    */
   _markEntityChanged (entity: IEntity, lazy: boolean = this.options.lazyEntityRefresh) {
     entity = getEntity(entity);
+    this._entitiesChangedKeys.set(entity, null);
+    this._scheduleRefresh(entity, lazy);
+  }
+
+  /**
+   * Same as _markEntityChanged() but limits refresh to systems depending on the prop
+   */
+  _markPropChanged (entity: IEntity, prop: TPropKey, lazy: boolean = this.options.lazyEntityRefresh) {
+    entity = getEntity(entity);
+    const changedKeys = this._entitiesChangedKeys.get(entity);
+    if (changedKeys) {
+      changedKeys.add(prop);
+    } else if (typeof changedKeys === 'undefined') {
+      this._entitiesChangedKeys.set(entity, new Set([prop]));
+    }
+    this._scheduleRefresh(entity, lazy);
+  }
+
+  private _scheduleRefresh (entity: IEntity, lazy: boolean) {
+    this._entitiesWithChanges.add(entity);
     if (lazy) {
       this._entitiesRefreshQueue.add(entity);
     } else {
@@ -170,7 +1075,93 @@ export class Engine {
   }
 
   /**
-   * Watched property will trigger _markEntityChanged() on it's value set.
+   * Clears per-frame sets of added, changed and removed components.
+   * Called by Engine.update() right after the refresh queue is processed,
+   * so systems observe changes made since the previous update.
+   * When change selectors are in use affected entities are refreshed on the next update
+   * so `on_added()`, `on_changed()` and `on_removed()` release them.
+   */
+  flushChanges () {
+    for (const entity of this._entitiesWithChanges) {
+      clearTrackedChanges(entity);
+      if (this._hasChangeSelectors) {
+        this._entitiesReleaseQueue.add(entity);
+      }
+    }
+
+    this._entitiesWithChanges.clear();
+  }
+
+  /**
+   * Changes refreshed while stages run were already matched by change selectors
+   * of the later stages, so such entities are released right away unless changed again.
+   */
+  private _releaseRefreshedMidFrame () {
+    for (const entity of this._entitiesRefreshedMidFrame) {
+      if (this._entitiesRefreshQueue.has(entity) || !this._entitiesWithChanges.has(entity)) {
+        continue;
+      }
+      clearTrackedChanges(entity);
+      this._entitiesWithChanges.delete(entity);
+      this._entitiesReleaseQueue.add(entity);
+    }
+
+    this._entitiesRefreshedMidFrame.clear();
+  }
+
+  private _processReleaseQueue () {
+    for (const entity of this._entitiesReleaseQueue) {
+      // Only change selectors (i.e. predicates) are affected
+      if (!this._entitiesChangedKeys.has(entity)) {
+        this._entitiesChangedKeys.set(entity, new Set());
+      }
+      this._entitiesRefreshQueue.add(entity);
+    }
+
+    this._entitiesReleaseQueue.clear();
+  }
+
+  /**
+   * Called by change selectors on setup
+   */
+  _registerChangeSelector () {
+    this._hasChangeSelectors = true;
+  }
+
+  /**
+   * Called by hierarchy selectors on setup
+   */
+  _registerHierarchySelector () {
+    this._hasHierarchySelectors = true;
+  }
+
+  /**
+   * Called by relation selectors on setup
+   */
+  _registerRelationSelector () {
+    this._hasRelationSelectors = true;
+  }
+
+  /**
+   * Re-tests predicate requirements of the entity (e.g. child_of(), related())
+   * after its parent or relations changed
+   */
+  private _markPredicatesChanged (entity: IEntity) {
+    if (!this._entitiesStore.has(entity)) {
+      return;
+    }
+    if (!this._entitiesChangedKeys.has(entity)) {
+      this._entitiesChangedKeys.set(entity, new Set());
+    }
+    if (this.options.lazyEntityRefresh) {
+      this._entitiesRefreshQueue.add(entity);
+    } else {
+      this.refreshEntity(entity);
+    }
+  }
+
+  /**
+   * Watched property will trigger _markPropChanged() on it's value set.
    * Warn: setting the same value also triggers the behavior
    */
   public addWatchedProperty(prop: TPropKey) {
@@ -186,38 +1177,162 @@ export class Engine {
   }
 
   /**
-   * Recalculates entity affiliation to systems
+   * Recalculates entity affiliation to systems.
+   * Only requirements mentioning changed components
+   * or containing predicate functions are re-tested.
    */
   refreshEntity (entity: IEntity) {
     entity = getEntity(entity);
     this._entitiesRefreshQueue.delete(entity);
 
-    for (const system of this._systems) {
-      system.refreshEntityStatus(entity);
+    if (this.profiler.enabled) {
+      this.profiler.countRefresh();
+    }
+
+    const changedKeys = this._entitiesChangedKeys.get(entity);
+    this._entitiesChangedKeys.delete(entity);
+
+    if (this._isRunningStages && this._hasChangeSelectors && this._entitiesWithChanges.has(entity)) {
+      this._entitiesRefreshedMidFrame.add(entity);
+    }
+
+    this._queryIndex.refreshEntity(entity, changedKeys || null);
+
+    for (const collection of this._sortedCollections) {
+      if (collection.has(entity) && (!changedKeys || collection.watchedKeys.some(key => changedKeys.has(key)))) {
+        collection.reposition(entity);
+      }
     }
 
     if (entity[DELETED_PROPS]?.size) {
       entity[DELETED_PROPS]?.clear();
     }
+
+    if (this._hasHierarchySelectors) {
+      for (const child of this._hierarchy.getChildren(entity)) {
+        this._markPredicatesChanged(child);
+      }
+    }
   }
 
-  removeEntity (entity: IEntity) {
+  /**
+   * Removes the entity from the engine.
+   * With `cascade` all descendants are removed as well, otherwise children are detached.
+   */
+  removeEntity (entity: IEntity, cascade: boolean = this.options.cascadeRemove) {
     entity = getEntity(entity);
+    const isOwned = entity[ENGINE] === this;
+
+    if (cascade) {
+      for (const child of this._hierarchy.getChildren(entity)) {
+        this.removeEntity(child, true);
+      }
+    }
+    const orphans = this._hierarchy.detach(entity);
+    const relatedSources = this._relations.deleteEntity(entity);
 
     this._entitiesStore.delete(entity);
     this._entitiesRefreshQueue.delete(entity);
+    this._entitiesReleaseQueue.delete(entity);
+    this._entitiesRefreshedMidFrame.delete(entity);
     this._entitiesToAddQueue.delete(entity);
+    this._entitiesWithChanges.delete(entity);
+    this._entitiesChangedKeys.delete(entity);
+
+    const id = entity[ENTITY_ID];
+    if (typeof id === 'number' && this._entitiesById.get(id) === entity) {
+      this._entitiesById.delete(id);
+    }
+    this._releaseHandle(entity);
 
     delete entity[ENGINE];
+    // Tag bits are specific to the engine
+    if (isOwned) {
+      delete entity[TARGET][TAGS];
+    }
 
-    for (const system of this._systems) {
-      system.removeEntity(entity);
+    this._queryIndex.removeEntity(entity);
+
+    if (isOwned && this.observers.size) {
+      this.observers.entityRemoved(entity, getComponentKeys(entity));
+    }
+
+    if (this._hasHierarchySelectors) {
+      for (const orphan of orphans) {
+        this._markPredicatesChanged(orphan);
+      }
+    }
+    if (this._hasRelationSelectors) {
+      for (const source of relatedSources) {
+        this._markPredicatesChanged(source);
+      }
+    }
+  }
+
+  /**
+   * Returns entity with provided ID if it's still present in the engine
+   */
+  getEntityById (id: number): IEntity | undefined {
+    return this._entitiesById.get(id);
+  }
+
+  getEntityHandle (entity: IEntity): IEntityHandle | undefined {
+    entity = getEntity(entity);
+    const handle = entity[ENTITY_HANDLE];
+    if (handle && this._handleSlots[handle.index] === entity) {
+      return handle;
+    }
+  }
+
+  /**
+   * Resolves to `undefined` once referenced entity is removed
+   */
+  getEntityByHandle (handle: IEntityHandle): IEntity | undefined {
+    if (this._handleGenerations[handle.index] !== handle.generation) {
+      return;
     }
+    return this._handleSlots[handle.index];
+  }
+
+  private _allocateHandle (entity: IEntity): IEntityHandle {
+    const index = this._freeHandleIndexes.length
+      ? this._freeHandleIndexes.pop()!
+      : this._handleSlots.length;
+
+    if (typeof this._handleGenerations[index] === 'undefined') {
+      this._handleGenerations[index] = 0;
+    }
+    this._handleSlots[index] = entity;
+
+    return { index, generation: this._handleGenerations[index] };
+  }
+
+  private _releaseHandle (entity: IEntity) {
+    const handle = entity[ENTITY_HANDLE];
+    if (!handle || this._handleSlots[handle.index] !== entity) {
+      return;
+    }
+
+    this._handleSlots[handle.index] = undefined;
+    this._handleGenerations[handle.index]++;
+    this._freeHandleIndexes.push(handle.index);
   }
 
   removeSystem (system: System) {
     const index = this._systems.indexOf(system);
+    if (index === -1) {
+      return;
+    }
     this._systems.splice(index, 1);
+    this._systemsSequence.delete(system);
+    this._systemRetries.delete(system);
+    this.profiler.forget(system);
+    system._releaseEventReaders();
+    this._groupSystemsByStage();
+    this._queryIndex.removeSystem(system);
+    for (const collection of system._getSortedCollections()) {
+      this._sortedCollections.delete(collection);
+    }
   }
 
   private static isSystemConstructor (fn: Function | TSystemConstructor)
@@ -2,27 +2,96 @@ import { Engine } from './engine';
 
 
 export const ENTITY_ID = Symbol.for('Entity ID');
+export const ENTITY_HANDLE = Symbol.for('Entity Handle');
 export const ENGINE = Symbol.for('Engine');
 export const PROXY = Symbol.for('Entity Proxy');
+export const TARGET = Symbol.for('Entity Proxy Target');
 export const DELETED_PROPS = Symbol.for('Contains removed components (properties)');
-export const CHANGED_PROPS = Symbol.for('Contains changed components');
+export const ADDED_PROPS = Symbol.for('Contains components added during current frame');
+export const CHANGED_PROPS = Symbol.for('Contains components changed during current frame');
+export const REMOVED_PROPS = Symbol.for('Contains components removed during current frame');
+export const TAGS = Symbol.for('Entity tag bitset');
 
 export interface IEntityProjection {
   [key: string]: any;
   [PROXY]?: IEntity;
   [ENTITY_ID]?: number;
+  [ENTITY_HANDLE]?: IEntityHandle;
+  [TAGS]?: number[];
 }
 
 export interface IEntity extends IEntityProjection {
   [ENGINE]: Engine;
   [PROXY]: IEntity;
+  [TARGET]: IEntity;
   [DELETED_PROPS]: Map<TPropKey, any>;
-  [CHANGED_PROPS]: Map<TPropKey, any>;
+  [ADDED_PROPS]: Set<TPropKey>;
+  [CHANGED_PROPS]: Set<TPropKey>;
+  [REMOVED_PROPS]: Set<TPropKey>;
 }
 
 export type TPropKey = string | number | symbol;
 
-const IGNORED_SYMBOLS = [ENGINE, PROXY] as const;
+/**
+ * Generational reference to an entity.
+ * `index` is reused after entity removal while `generation` is incremented,
+ * so handles of removed entities never resolve to a newer entity.
+ */
+export interface IEntityHandle {
+  readonly index: number;
+  readonly generation: number;
+}
+
+const IGNORED_SYMBOLS = [
+  ENGINE, PROXY, TARGET, ENTITY_ID, ENTITY_HANDLE,
+  DELETED_PROPS, ADDED_PROPS, CHANGED_PROPS, REMOVED_PROPS, TAGS,
+] as const;
+
+const isIgnoredProp = (prop: TPropKey) => {
+  return typeof prop === 'symbol' && IGNORED_SYMBOLS.some(x => x === prop);
+};
+
+/**
+ * Records prop in entity's per-frame change sets.
+ * The sets are cleared by Engine.flushChanges()
+ */
+const trackPropSet = (entity: IEntity, prop: TPropKey, isNew: boolean) => {
+  if (isNew) {
+    entity[REMOVED_PROPS].delete(prop);
+    entity[ADDED_PROPS].add(prop);
+  } else if (!entity[ADDED_PROPS].has(prop)) {
+    entity[CHANGED_PROPS].add(prop);
+  }
+};
+
+const trackPropDelete = (entity: IEntity, prop: TPropKey) => {
+  entity[ADDED_PROPS].delete(prop);
+  entity[CHANGED_PROPS].delete(prop);
+  entity[REMOVED_PROPS].add(prop);
+};
+
+/**
+ * Returns entity's own component keys omitting internal symbols
+ */
+export const getComponentKeys = (entity: IEntity | IEntityProjection): TPropKey[] => {
+  return Reflect.ownKeys(entity).filter(key => !isIgnoredProp(key));
+};
+
+/**
+ * Treats every present component as added during current frame
+ */
+export const trackAllPropsAdded = (entity: IEntity) => {
+  clearTrackedChanges(entity);
+  for (const key of getComponentKeys(entity)) {
+    entity[ADDED_PROPS].add(key);
+  }
+};
+
+export const clearTrackedChanges = (entity: IEntity) => {
+  entity[ADDED_PROPS].clear();
+  entity[CHANGED_PROPS].clear();
+  entity[REMOVED_PROPS].clear();
+};
 
 export const EntityProxyHandler: ProxyHandler<IEntity> = {
   set (entity: IEntity, prop: TPropKey, value: any): boolean {
@@ -35,27 +104,48 @@ export const EntityProxyHandler: ProxyHandler<IEntity> = {
     }
 
     // We should trigger update when new property added
-    const isIgnoredSymbol = typeof prop === 'symbol' && IGNORED_SYMBOLS.some(x => x === prop);
-    const needUpdate = !isIgnoredSymbol && (engine?.isWatchedProperty(prop) || !(prop in entity));
+    const isNew = !(prop in entity);
+    const needUpdate = !isIgnoredProp(prop) && (isNew || engine?.isWatchedProperty(prop));
     if (needUpdate) {
-      Reflect.set(entity, CHANGED_PROPS, value);
+      trackPropSet(entity, prop, isNew);
     }
 
+    const isObserved = !!engine?.observers.size && !isIgnoredProp(prop);
+    // @ts-ignore
+    const previousValue = isObserved ? entity[prop] : undefined;
+
     Reflect.set(entity, prop, value);
 
     if (needUpdate) {
-      engine?._markEntityChanged(entity);
+      engine?._markPropChanged(entity, prop);
+    }
+
+    if (isObserved) {
+      if (isNew) {
+        engine.observers.componentAdded(entity[PROXY], prop, value);
+      } else {
+        engine.observers.componentChanged(entity[PROXY], prop, value, previousValue);
+      }
     }
 
     return true;
   },
 
   deleteProperty (entity: IEntity, prop: TPropKey): boolean {
+    const needTrack = !isIgnoredProp(prop) && prop in entity;
     // @ts-ignore
     entity[DELETED_PROPS].set(prop, entity[prop]);
     // @ts-ignore
     delete entity[prop];
-    entity[ENGINE]?._markEntityChanged(entity);
+    if (needTrack) {
+      trackPropDelete(entity, prop);
+    }
+    const engine = entity[ENGINE];
+    engine?._markPropChanged(entity, prop);
+
+    if (needTrack && engine?.observers.size) {
+      engine.observers.componentRemoved(entity[PROXY], prop, entity[DELETED_PROPS].get(prop));
+    }
 
     return true;
   }
@@ -77,7 +167,12 @@ export const getEntity = (candidate: IEntity | IEntityProjection): IEntity => {
   const proxy = new Proxy(entity, EntityProxyHandler);
 
   entity[PROXY] = proxy;
+  // Allows to bypass proxy traps
+  entity[TARGET] = entity;
   entity[DELETED_PROPS] = new Map();
+  entity[ADDED_PROPS] = new Set();
+  entity[CHANGED_PROPS] = new Set();
+  entity[REMOVED_PROPS] = new Set();
 
   return proxy;
 };
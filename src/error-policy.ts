@@ -0,0 +1,41 @@
+import { System } from './system';
+import { createEventChannel } from './events';
+
+export interface ISystemErrorContext {
+  system: System;
+  error: unknown;
+  frame: number;
+  dt: number;
+}
+
+/**
+ * Skips the system for `delay` frames, doubling the delay on each consecutive failure.
+ * The system is disabled after `maxAttempts` consecutive failures.
+ */
+export interface IRetryPolicy {
+  type: 'retry';
+  delay: number;
+  maxAttempts: number;
+}
+
+export type TSystemErrorAction = 'disable' | 'skip' | 'rethrow' | IRetryPolicy;
+
+/**
+ * Custom handler. Returning nothing skips the system for the current frame
+ */
+export type TSystemErrorHandler = (
+  system: System,
+  error: unknown,
+  context: ISystemErrorContext,
+) => TSystemErrorAction | void;
+
+export type TSystemErrorPolicy = TSystemErrorAction | TSystemErrorHandler;
+
+export const retryWithBackoff = (delay = 1, maxAttempts = 5): IRetryPolicy => {
+  return { type: 'retry', delay, maxAttempts };
+};
+
+/**
+ * Emitted to `engine.events` when a system is disabled by the error policy
+ */
+export const SystemDisabled = createEventChannel<ISystemErrorContext>('systemDisabled');
@@ -0,0 +1,125 @@
+/**
+ * Typed event channel token.
+ * Created with `createEventChannel<TEvent>(name)`
+ */
+export interface EventChannel<T> {
+  readonly name: string;
+  // Type carrier only, never assigned
+  readonly __event?: T;
+}
+
+export const createEventChannel = <T>(name: string): EventChannel<T> => {
+  return { name };
+};
+
+interface IQueuedEvent<T> {
+  event: T;
+  frame: number;
+}
+
+class ChannelQueue<T> {
+  readonly events: IQueuedEvent<T>[] = [];
+  readonly readers: Set<EventReader<T>> = new Set();
+
+  // Sequence number of the first queued event
+  offset: number = 0;
+
+  get end (): number {
+    return this.offset + this.events.length;
+  }
+}
+
+/**
+ * Per-reader cursor. Every reader sees each event exactly once
+ */
+export class EventReader<T> {
+  private _cursor: number;
+
+  constructor (private _queue: ChannelQueue<T>) {
+    this._cursor = _queue.offset;
+    _queue.readers.add(this);
+  }
+
+  get cursor (): number {
+    return this._cursor;
+  }
+
+  get pending (): number {
+    return this._queue.end - Math.max(this._cursor, this._queue.offset);
+  }
+
+  /**
+   * Returns events emitted since the previous read
+   */
+  read (): T[] {
+    const queue = this._queue;
+    const start = Math.max(this._cursor, queue.offset) - queue.offset;
+    this._cursor = queue.end;
+
+    return queue.events.slice(start).map(x => x.event);
+  }
+
+  /**
+   * Unregisters the reader so it no longer holds events in the queue
+   */
+  dispose () {
+    this._queue.readers.delete(this);
+  }
+}
+
+/**
+ * Per-frame event queues.
+ * Events are dropped once all registered readers consumed them
+ * or after `maxAge` frames.
+ */
+export class EventBus {
+  private _queues: Map<EventChannel<any>, ChannelQueue<any>> = new Map();
+  private _frame: number = 0;
+
+  constructor (public maxAge: number = 2) {}
+
+  emit<T> (channel: EventChannel<T>, event: T) {
+    this._getQueue(channel).events.push({ event, frame: this._frame });
+  }
+
+  reader<T> (channel: EventChannel<T>): EventReader<T> {
+    return new EventReader(this._getQueue(channel));
+  }
+
+  /**
+   * Called by Engine.update() once per frame
+   */
+  update () {
+    this._frame++;
+
+    for (const queue of this._queues.values()) {
+      let consumed = -Infinity;
+      if (queue.readers.size) {
+        consumed = Infinity;
+        for (const reader of queue.readers) {
+          consumed = Math.min(consumed, reader.cursor);
+        }
+      }
+
+      let count = 0;
+      for (const { frame } of queue.events) {
+        const isConsumed = queue.offset + count < consumed;
+        const isExpired = this._frame - frame >= this.maxAge;
+        if (!isConsumed && !isExpired) break;
+        count++;
+      }
+
+      queue.events.splice(0, count);
+      queue.offset += count;
+    }
+  }
+
+  private _getQueue<T> (channel: EventChannel<T>): ChannelQueue<T> {
+    let queue = this._queues.get(channel);
+    if (!queue) {
+      queue = new ChannelQueue<T>();
+      this._queues.set(channel, queue);
+    }
+    return queue;
+  }
+}
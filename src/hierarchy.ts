@@ -0,0 +1,97 @@
+import { IEntity } from './entity';
+
+/**
+ * Parent/child relations between entities of an Engine.
+ * References are dropped when entities are removed from the engine.
+ */
+export class Hierarchy {
+  private _parents: Map<IEntity, IEntity> = new Map();
+  private _children: Map<IEntity, Set<IEntity>> = new Map();
+
+  getParent (entity: IEntity): IEntity | undefined {
+    return this._parents.get(entity);
+  }
+
+  getChildren (entity: IEntity): IEntity[] {
+    const children = this._children.get(entity);
+    return children ? [...children] : [];
+  }
+
+  /**
+   * Returns all descendants depth-first
+   */
+  getDescendants (entity: IEntity): IEntity[] {
+    const descendants: IEntity[] = [];
+    for (const child of this._children.get(entity) || []) {
+      descendants.push(child, ...this.getDescendants(child));
+    }
+    return descendants;
+  }
+
+  isAncestor (ancestor: IEntity, entity: IEntity): boolean {
+    for (let parent = this._parents.get(entity); parent; parent = this._parents.get(parent)) {
+      if (parent === ancestor) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Passing `null` as parent detaches the child
+   */
+  setParent (child: IEntity, parent: IEntity | null) {
+    if (parent === child || (parent && this.isAncestor(child, parent))) {
+      throw new Error(`Entity can't be a parent of itself or its ancestor`);
+    }
+
+    const previous = this._parents.get(child);
+    if (previous) {
+      const siblings = this._children.get(previous)!;
+      siblings.delete(child);
+      if (!siblings.size) {
+        this._children.delete(previous);
+      }
+      this._parents.delete(child);
+    }
+
+    if (!parent) {
+      return;
+    }
+
+    this._parents.set(child, parent);
+    const children = this._children.get(parent);
+    if (children) {
+      children.add(child);
+    } else {
+      this._children.set(parent, new Set([child]));
+    }
+  }
+
+  /**
+   * Removes entity from the hierarchy. Returns orphaned children
+   */
+  detach (entity: IEntity): IEntity[] {
+    const children = this.getChildren(entity);
+    for (const child of children) {
+      this.setParent(child, null);
+    }
+    this.setParent(entity, null);
+    return children;
+  }
+
+  /**
+   * Child-parent pairs. Used by snapshot and serialization
+   */
+  capture (): Array<[IEntity, IEntity]> {
+    return [...this._parents];
+  }
+
+  restore (pairs: Array<[IEntity, IEntity]>) {
+    this._parents.clear();
+    this._children.clear();
+    for (const [child, parent] of pairs) {
+      this.setParent(child, parent);
+    }
+  }
+}
@@ -3,3 +3,20 @@ export * from './system';
 export * from './entity';
 export * from './simplified-system';
 export * from './selectors';
+export * from './serialization';
+export * from './snapshot';
+export * from './command-buffer';
+export * from './events';
+export * from './observers';
+export * from './error-policy';
+export * from './profiler';
+export * from './prefabs';
+export * from './relations';
+export * from './resources';
+export * from './tags';
+export * from './query';
+export * from './sorted-collection';
+export * from './spatial-index';
+export * from './scenes';
+export * from './timers';
+export * from './component-map';
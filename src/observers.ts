@@ -0,0 +1,98 @@
+import { IEntity, TPropKey } from './entity';
+
+/**
+ * Engine-wide entity and component lifecycle callbacks.
+ * Components of added and removed entities are reported
+ * with `componentAdded()` / `componentRemoved()` as well.
+ */
+export interface IEngineObserver {
+  // Limits component callbacks to the listed keys
+  components?: TPropKey[];
+
+  entityAdded? (entity: IEntity): void;
+  entityRemoved? (entity: IEntity): void;
+  componentAdded? (entity: IEntity, key: TPropKey, value: any): void;
+  componentRemoved? (entity: IEntity, key: TPropKey, removedValue: any): void;
+  componentChanged? (entity: IEntity, key: TPropKey, value: any, previousValue: any): void;
+
+  resourceInserted? (key: TPropKey, value: any, previousValue: any): void;
+  resourceRemoved? (key: TPropKey, removedValue: any): void;
+}
+
+export type TUnsubscribe = () => void;
+
+export class ObserverRegistry {
+  private _observers: IEngineObserver[] = [];
+
+  get size (): number {
+    return this._observers.length;
+  }
+
+  add (observer: IEngineObserver): TUnsubscribe {
+    this._observers = [...this._observers, observer];
+
+    return () => {
+      this._observers = this._observers.filter(x => x !== observer);
+    };
+  }
+
+  entityAdded (entity: IEntity, keys: TPropKey[]) {
+    for (const observer of this._observers) {
+      observer.entityAdded?.(entity);
+    }
+    for (const key of keys) {
+      // @ts-ignore
+      this.componentAdded(entity, key, entity[key]);
+    }
+  }
+
+  entityRemoved (entity: IEntity, keys: TPropKey[]) {
+    for (const key of keys) {
+      // @ts-ignore
+      this.componentRemoved(entity, key, entity[key]);
+    }
+    for (const observer of this._observers) {
+      observer.entityRemoved?.(entity);
+    }
+  }
+
+  componentAdded (entity: IEntity, key: TPropKey, value: any) {
+    for (const observer of this._observers) {
+      if (observer.componentAdded && ObserverRegistry._isObserved(observer, key)) {
+        observer.componentAdded(entity, key, value);
+      }
+    }
+  }
+
+  componentRemoved (entity: IEntity, key: TPropKey, removedValue: any) {
+    for (const observer of this._observers) {
+      if (observer.componentRemoved && ObserverRegistry._isObserved(observer, key)) {
+        observer.componentRemoved(entity, key, removedValue);
+      }
+    }
+  }
+
+  componentChanged (entity: IEntity, key: TPropKey, value: any, previousValue: any) {
+    for (const observer of this._observers) {
+      if (observer.componentChanged && ObserverRegistry._isObserved(observer, key)) {
+        observer.componentChanged(entity, key, value, previousValue);
+      }
+    }
+  }
+
+  resourceInserted (key: TPropKey, value: any, previousValue: any) {
+    for (const observer of this._observers) {
+      observer.resourceInserted?.(key, value, previousValue);
+    }
+  }
+
+  resourceRemoved (key: TPropKey, removedValue: any) {
+    for (const observer of this._observers) {
+      observer.resourceRemoved?.(key, removedValue);
+    }
+  }
+
+  private static _isObserved (observer: IEngineObserver, key: TPropKey): boolean {
+    return !observer.components || observer.components.includes(key);
+  }
+}
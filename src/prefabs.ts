@@ -0,0 +1,112 @@
+import { IEntityProjection, isEntity, isEntityProjection } from './entity';
+import { cloneComponent } from './snapshot';
+
+export interface IPrefabChild {
+  prefab: string;
+  overrides?: IEntityProjection;
+}
+
+/**
+ * Entity template.
+ * `children` are spawned along with the entity and assigned to it under their keys.
+ */
+export interface IPrefabDefinition {
+  extends?: string;
+  components?: IEntityProjection;
+  children?: Record<string, string | IPrefabChild>;
+}
+
+export interface IResolvedPrefab {
+  components: IEntityProjection;
+  children: Record<string, IPrefabChild>;
+}
+
+const isPlainObject = (value: any): boolean => {
+  if (value === null || typeof value !== 'object' || isEntity(value) || isEntityProjection(value)) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Deep merges plain objects of `source` into `target`, other values are replaced with their copies
+ */
+export const mergeComponents = (target: any, source: any): any => {
+  for (const key of Reflect.ownKeys(source)) {
+    const value = source[key];
+    if (isPlainObject(target[key]) && isPlainObject(value)) {
+      mergeComponents(target[key], value);
+    } else {
+      target[key] = cloneComponent(value);
+    }
+  }
+  return target;
+};
+
+export class PrefabRegistry {
+  private _definitions: Map<string, IPrefabDefinition> = new Map();
+
+  register (name: string, definition: IPrefabDefinition) {
+    if (this._definitions.has(name)) {
+      throw new Error(`Prefab "${name}" is already registered`);
+    }
+    this._definitions.set(name, definition);
+  }
+
+  unregister (name: string) {
+    this._definitions.delete(name);
+  }
+
+  has (name: string): boolean {
+    return this._definitions.has(name);
+  }
+
+  /**
+   * Flattens inheritance chain of the prefab.
+   * Returned components are copies safe to be assigned to an entity.
+   */
+  resolve (name: string): IResolvedPrefab {
+    const chain: IPrefabDefinition[] = [];
+    const visited: string[] = [];
+
+    let current: string | undefined = name;
+    while (typeof current !== 'undefined') {
+      if (visited.includes(current)) {
+        throw new Error(`Prefab inheritance cycle: ${[...visited, current].join(' -> ')}`);
+      }
+      visited.push(current);
+
+      const definition = this._definitions.get(current);
+      if (!definition) {
+        throw new Error(`Unknown prefab "${current}"`);
+      }
+      chain.unshift(definition);
+      current = definition.extends;
+    }
+
+    const resolved: IResolvedPrefab = { components: {}, children: {} };
+    for (const definition of chain) {
+      mergeComponents(resolved.components, definition.components || {});
+
+      for (const [key, child] of Object.entries(definition.children || {})) {
+        resolved.children[key] = typeof child === 'string' ? { prefab: child } : child;
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Throws if the prefab spawns itself through its children
+   */
+  assertChildrenAcyclic (name: string, chain: string[] = []) {
+    if (chain.includes(name)) {
+      throw new Error(`Prefab children cycle: ${[...chain, name].join(' -> ')}`);
+    }
+
+    for (const child of Object.values(this.resolve(name).children)) {
+      this.assertChildrenAcyclic(child.prefab, [...chain, name]);
+    }
+  }
+}
@@ -0,0 +1,238 @@
+import { System } from './system';
+import { getSystemName } from './system-order';
+
+export interface IStatsSummary {
+  min: number;
+  avg: number;
+  max: number;
+  p95: number;
+}
+
+export interface ISystemStats {
+  system: System;
+  name: string;
+  // Wall time of System.update() in milliseconds
+  time: IStatsSummary;
+}
+
+export interface ICollectionStats {
+  system: System;
+  name: string;
+  collection: string;
+  size: IStatsSummary;
+}
+
+export interface IEngineStats {
+  // Amount of frames in the rolling window
+  frames: number;
+  frameTime: IStatsSummary;
+  refreshedEntities: IStatsSummary;
+  refreshQueueSize: IStatsSummary;
+  addQueueSize: IStatsSummary;
+  systems: ISystemStats[];
+  collections: ICollectionStats[];
+}
+
+interface ITraceEvent {
+  name: string;
+  cat: string;
+  ph: 'X';
+  ts: number;
+  dur: number;
+  pid: number;
+  tid: number;
+}
+
+const now: () => number = typeof performance !== 'undefined'
+  ? () => performance.now()
+  : () => Date.now();
+
+/**
+ * Keeps last `size` values
+ */
+class RollingMetric {
+  private _values: number[] = [];
+
+  constructor (private _size: number) {}
+
+  push (value: number) {
+    this._values.push(value);
+    if (this._values.length > this._size) {
+      this._values.shift();
+    }
+  }
+
+  summary (): IStatsSummary {
+    const values = this._values;
+    if (!values.length) {
+      return { min: 0, avg: 0, max: 0, p95: 0 };
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const sum = sorted.reduce((acc, x) => acc + x, 0);
+
+    return {
+      min: sorted[0],
+      avg: sum / sorted.length,
+      max: sorted[sorted.length - 1],
+      p95: sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1)],
+    };
+  }
+}
+
+/**
+ * Opt-in per-system timing and frame statistics over a rolling window of frames
+ */
+export class Profiler {
+  enabled: boolean = false;
+
+  private _frames = 0;
+  private _frameStart = 0;
+  private _inFrame = false;
+  private _refreshed = 0;
+
+  private _frameTime: RollingMetric;
+  private _refreshedEntities: RollingMetric;
+  private _refreshQueueSize: RollingMetric;
+  private _addQueueSize: RollingMetric;
+  private _systemTimes: Map<System, RollingMetric> = new Map();
+  private _collectionSizes: Map<System, Map<string, RollingMetric>> = new Map();
+
+  // Trace events of frames in the window
+  private _trace: ITraceEvent[][] = [];
+  private _frameTrace: ITraceEvent[] = [];
+
+  constructor (readonly windowSize: number = 120) {
+    this._frameTime = new RollingMetric(windowSize);
+    this._refreshedEntities = new RollingMetric(windowSize);
+    this._refreshQueueSize = new RollingMetric(windowSize);
+    this._addQueueSize = new RollingMetric(windowSize);
+  }
+
+  beginFrame (refreshQueueSize: number, addQueueSize: number) {
+    this._inFrame = true;
+    this._refreshed = 0;
+    this._frameTrace = [];
+    this._refreshQueueSize.push(refreshQueueSize);
+    this._addQueueSize.push(addQueueSize);
+    this._frameStart = now();
+  }
+
+  endFrame (systems: System[]) {
+    if (!this._inFrame) {
+      return;
+    }
+    this._inFrame = false;
+
+    const duration = now() - this._frameStart;
+    this._frameTime.push(duration);
+    this._refreshedEntities.push(this._refreshed);
+    this._addTraceEvent(`Frame ${++this._frames}`, 'frame', this._frameStart, duration);
+
+    this._trace.push(this._frameTrace);
+    if (this._trace.length > this.windowSize) {
+      this._trace.shift();
+    }
+
+    for (const system of systems) {
+      let metrics = this._collectionSizes.get(system);
+      if (!metrics) {
+        metrics = new Map();
+        this._collectionSizes.set(system, metrics);
+      }
+
+      for (const [collection, size] of Object.entries(system.getCollectionSizes())) {
+        let metric = metrics.get(collection);
+        if (!metric) {
+          metric = new RollingMetric(this.windowSize);
+          metrics.set(collection, metric);
+        }
+        metric.push(size);
+      }
+    }
+  }
+
+  /**
+   * Returns start timestamp passed to `endSystem()`
+   */
+  beginSystem (): number {
+    return now();
+  }
+
+  endSystem (system: System, start: number) {
+    if (!this._inFrame) {
+      return;
+    }
+
+    const duration = now() - start;
+
+    let metric = this._systemTimes.get(system);
+    if (!metric) {
+      metric = new RollingMetric(this.windowSize);
+      this._systemTimes.set(system, metric);
+    }
+    metric.push(duration);
+
+    this._addTraceEvent(getSystemName(system), 'system', start, duration);
+  }
+
+  countRefresh () {
+    this._refreshed++;
+  }
+
+  /**
+   * Drops collected data of the removed system
+   */
+  forget (system: System) {
+    this._systemTimes.delete(system);
+    this._collectionSizes.delete(system);
+  }
+
+  stats (): IEngineStats {
+    const systems: ISystemStats[] = [];
+    for (const [system, metric] of this._systemTimes) {
+      systems.push({ system, name: getSystemName(system), time: metric.summary() });
+    }
+
+    const collections: ICollectionStats[] = [];
+    for (const [system, metrics] of this._collectionSizes) {
+      for (const [collection, metric] of metrics) {
+        collections.push({ system, name: getSystemName(system), collection, size: metric.summary() });
+      }
+    }
+
+    return {
+      frames           : this._trace.length,
+      frameTime        : this._frameTime.summary(),
+      refreshedEntities: this._refreshedEntities.summary(),
+      refreshQueueSize : this._refreshQueueSize.summary(),
+      addQueueSize     : this._addQueueSize.summary(),
+      systems,
+      collections,
+    };
+  }
+
+  /**
+   * Returns frames of the rolling window in Chrome trace-event JSON format
+   * (chrome://tracing, Perfetto)
+   */
+  exportChromeTrace (): string {
+    const traceEvents: ITraceEvent[] = [];
+    for (const events of this._trace) {
+      traceEvents.push(...events);
+    }
+    return JSON.stringify({ traceEvents, displayTimeUnit: 'ms' });
+  }
+
+  private _addTraceEvent (name: string, cat: string, start: number, duration: number) {
+    this._frameTrace.push({
+      name,
+      cat,
+      ph : 'X',
+      ts : start * 1000,
+      dur: duration * 1000,
+      pid: 1,
+      tid: 1,
+    });
+  }
+}
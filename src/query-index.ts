@@ -0,0 +1,319 @@
+import { IEntity, TPropKey } from './entity';
+import { getTagKey } from './tags';
+import {
+  IRequirementOwner,
+  System,
+  TEntityPredicate,
+  TEntityRequirementConstraint,
+  TEntityRequirementList,
+  compileRequirementList,
+} from './system';
+
+/**
+ * System collection or standalone Query maintained by the index
+ */
+export interface IQuerySubscriber {
+  owner: IRequirementOwner;
+  entityAdded (entity: IEntity): void;
+  entityRemoved (entity: IEntity): void;
+}
+
+/**
+ * Requirement list shared by every system collection declaring it
+ */
+export class IndexedQuery {
+  readonly members: Set<IEntity> = new Set<IEntity>();
+  readonly subscribers: IQuerySubscriber[] = [];
+
+  // Component keys mentioned by the list
+  readonly keys: TPropKey[];
+
+  // Contains predicate functions which have to be re-tested on any change
+  readonly isDynamic: boolean;
+
+  constructor (
+    readonly hash: string,
+    readonly requirementList: TEntityRequirementList,
+    readonly test: TEntityPredicate,
+  ) {
+    const keys: TPropKey[] = [];
+    let isDynamic = false;
+    for (const constraint of requirementList) {
+      if (typeof constraint !== 'function') {
+        keys.push(constraint);
+      } else if (constraint.tags) {
+        keys.push(...constraint.tags.map(getTagKey));
+      } else {
+        isDynamic = true;
+      }
+    }
+    this.keys = keys;
+    this.isDynamic = isDynamic;
+  }
+
+  /**
+   * Updates membership of the entity and notifies subscribers on change
+   */
+  refreshEntity (entity: IEntity) {
+    const matches = this.test(entity);
+    if (matches === this.members.has(entity)) {
+      return;
+    }
+
+    if (matches) {
+      this.members.add(entity);
+      for (const subscriber of this.subscribers) {
+        subscriber.entityAdded(entity);
+      }
+    } else {
+      this.removeEntity(entity);
+    }
+  }
+
+  removeEntity (entity: IEntity) {
+    if (!this.members.delete(entity)) {
+      return;
+    }
+
+    for (const subscriber of this.subscribers) {
+      subscriber.entityRemoved(entity);
+    }
+  }
+}
+
+/**
+ * Engine-wide storage of system requirements.
+ * Identical requirement lists are evaluated once
+ * and only queries mentioning changed components are re-tested.
+ */
+export class QueryIndex {
+  private _queries: Map<string, IndexedQuery> = new Map();
+  private _queriesByKey: Map<TPropKey, Set<IndexedQuery>> = new Map();
+  private _dynamicQueries: Set<IndexedQuery> = new Set();
+
+  // Predicates are weakly held so IDs of disposed queries' closures go away with them
+  private _keyIds: Map<TPropKey, number> = new Map();
+  private _predicateIds: WeakMap<TEntityPredicate, number> = new WeakMap();
+  private _lastConstraintId = 0;
+
+  get size (): number {
+    return this._queries.size;
+  }
+
+  /**
+   * Subscribes system collections to queries.
+   * Entities already matching the queries are added to the system.
+   */
+  addSystem (system: System, entities: Iterable<IEntity>) {
+    const { requirements } = system;
+    if (!requirements) {
+      return;
+    }
+
+    for (const [collectionName, requirementList] of Object.entries(requirements)) {
+      const query = this.subscribe(requirementList, entities, {
+        owner        : system,
+        entityAdded  : entity => system.addEntity(entity, collectionName),
+        entityRemoved: entity => system.removeEntity(entity, collectionName),
+      });
+
+      for (const entity of query.members) {
+        system.addEntity(entity, collectionName);
+      }
+    }
+  }
+
+  removeSystem (system: System) {
+    this.unsubscribe(system);
+  }
+
+  /**
+   * Current members of queries backing system collections, by collection name
+   */
+  getSystemMembers (system: System): Record<string, IEntity[]> {
+    const members: Record<string, IEntity[]> = {};
+    for (const [collectionName, requirementList] of Object.entries(system.requirements || {})) {
+      const query = this._queries.get(this._hash(requirementList));
+      members[collectionName] = query ? [...query.members] : [];
+    }
+    return members;
+  }
+
+  /**
+   * Returns query shared by every subscriber of the same requirement list
+   */
+  subscribe (
+    requirementList: TEntityRequirementList,
+    entities: Iterable<IEntity>,
+    subscriber: IQuerySubscriber,
+  ): IndexedQuery {
+    const query = this._getQuery(requirementList, subscriber.owner, entities);
+    query.subscribers.push(subscriber);
+    return query;
+  }
+
+  /**
+   * Drops subscriptions of the owner. Queries left without subscribers are deleted
+   */
+  unsubscribe (owner: IRequirementOwner) {
+    for (const query of [...this._queries.values()]) {
+      const subscribers = query.subscribers.filter(x => x.owner !== owner);
+      if (subscribers.length === query.subscribers.length) {
+        continue;
+      }
+
+      query.subscribers.splice(0, query.subscribers.length, ...subscribers);
+
+      if (!subscribers.length) {
+        this._deleteQuery(query);
+      }
+    }
+  }
+
+  /**
+   * Re-tests queries affected by changed component keys.
+   * Passing `null` re-tests every query.
+   */
+  refreshEntity (entity: IEntity, changedKeys: Set<TPropKey> | null) {
+    if (!changedKeys) {
+      for (const query of this._queries.values()) {
+        query.refreshEntity(entity);
+      }
+      return;
+    }
+
+    for (const query of this._dynamicQueries) {
+      query.refreshEntity(entity);
+    }
+
+    const visited = new Set<IndexedQuery>();
+    for (const key of changedKeys) {
+      const queries = this._queriesByKey.get(key);
+      if (!queries) continue;
+
+      for (const query of queries) {
+        if (visited.has(query)) continue;
+        visited.add(query);
+        query.refreshEntity(entity);
+      }
+    }
+  }
+
+  removeEntity (entity: IEntity) {
+    for (const query of this._queries.values()) {
+      query.removeEntity(entity);
+    }
+  }
+
+  captureMembers (): Map<IndexedQuery, IEntity[]> {
+    const captured = new Map<IndexedQuery, IEntity[]>();
+    for (const query of this._queries.values()) {
+      captured.set(query, [...query.members]);
+    }
+    return captured;
+  }
+
+  /**
+   * Replaces members of captured queries without notifying subscribers.
+   * Queries created after the capture are refreshed as usual.
+   */
+  restoreMembers (
+    captured: Map<IndexedQuery, IEntity[]>,
+    entities: Iterable<IEntity>,
+    dropped: Iterable<IEntity>,
+  ) {
+    for (const query of this._queries.values()) {
+      const members = captured.get(query);
+      if (members) {
+        query.members.clear();
+        for (const entity of members) {
+          query.members.add(entity);
+        }
+        continue;
+      }
+
+      for (const entity of dropped) {
+        query.removeEntity(entity);
+      }
+      for (const entity of entities) {
+        query.refreshEntity(entity);
+      }
+    }
+  }
+
+  private _getQuery (
+    requirementList: TEntityRequirementList,
+    owner: IRequirementOwner,
+    entities: Iterable<IEntity>,
+  ): IndexedQuery {
+    const hash = this._hash(requirementList);
+    const existing = this._queries.get(hash);
+    if (existing) {
+      return existing;
+    }
+
+    // PREDICATE_META setup runs only for the owner which declared the list first
+    const query = new IndexedQuery(hash, requirementList, compileRequirementList(requirementList, owner));
+    this._queries.set(hash, query);
+
+    if (query.isDynamic) {
+      this._dynamicQueries.add(query);
+    } else {
+      for (const key of query.keys) {
+        let queries = this._queriesByKey.get(key);
+        if (!queries) {
+          queries = new Set();
+          this._queriesByKey.set(key, queries);
+        }
+        queries.add(query);
+      }
+    }
+
+    for (const entity of entities) {
+      query.refreshEntity(entity);
+    }
+
+    return query;
+  }
+
+  private _deleteQuery (query: IndexedQuery) {
+    this._queries.delete(query.hash);
+    this._dynamicQueries.delete(query);
+
+    for (const key of query.keys) {
+      const queries = this._queriesByKey.get(key);
+      queries?.delete(query);
+      if (queries && !queries.size) {
+        this._queriesByKey.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Order-independent identity of requirement list
+   */
+  private _hash (requirementList: TEntityRequirementList): string {
+    return requirementList
+      .map(constraint => this._getConstraintId(constraint))
+      .sort((a, b) => a - b)
+      .join(',');
+  }
+
+  private _getConstraintId (constraint: TEntityRequirementConstraint): number {
+    if (typeof constraint === 'function') {
+      let id = this._predicateIds.get(constraint);
+      if (typeof id === 'undefined') {
+        id = ++this._lastConstraintId;
+        this._predicateIds.set(constraint, id);
+      }
+      return id;
+    }
+
+    let id = this._keyIds.get(constraint);
+    if (typeof id === 'undefined') {
+      id = ++this._lastConstraintId;
+      this._keyIds.set(constraint, id);
+    }
+    return id;
+  }
+}
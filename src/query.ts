@@ -0,0 +1,199 @@
+import { IEntity, TPropKey } from './entity';
+import { Engine } from './engine';
+import {
+  IRequirementOwner,
+  PREDICATE_META,
+  TEntityPredicate,
+  TEntityRequirementConstraint,
+  TEntityRequirementList,
+  compileRequirementList,
+} from './system';
+import { not, or } from './selectors';
+import { TUnsubscribe } from './observers';
+
+export interface IQueryDescriptor {
+  // Every constraint has to match
+  all?: TEntityRequirementConstraint[];
+  // At least one constraint has to match
+  any?: TEntityRequirementConstraint[];
+  // None of constraints may match
+  none?: TEntityRequirementConstraint[];
+}
+
+export type TQueryCallback = (entity: IEntity) => void;
+
+/**
+ * Converts descriptor into requirement list understood by systems.
+ * Identical descriptors produce identical lists so queries share matching.
+ */
+export const toRequirementList = (descriptor: IQueryDescriptor): TEntityRequirementList => {
+  const list: TEntityRequirementList = [...descriptor.all || []];
+
+  if (descriptor.any?.length) {
+    const constraints = descriptor.any;
+    list.push(getCompositePredicate(anyPredicates, constraints, () => anyOf(constraints)));
+  }
+  for (const constraint of descriptor.none || []) {
+    list.push(getCompositePredicate(nonePredicates, [constraint], () => noneOf(constraint)));
+  }
+
+  return list;
+};
+
+const toPredicateCandidate = (constraint: TEntityRequirementConstraint) => {
+  return typeof constraint === 'symbol'
+    ? (entity: IEntity) => constraint in entity
+    : constraint;
+};
+
+/**
+ * Inner constraints are compiled for the owner so their PREDICATE_META setup
+ * (change, hierarchy and relation selectors) runs as for top-level constraints
+ */
+const compileConstraints = (constraints: TEntityRequirementConstraint[], owner: IRequirementOwner) => {
+  return constraints.map(constraint => compileRequirementList([constraint], owner));
+};
+
+const anyOf = (constraints: TEntityRequirementConstraint[]): TEntityPredicate => {
+  return Object.assign(or(...constraints.map(toPredicateCandidate)), {
+    [PREDICATE_META]: (owner: IRequirementOwner) => {
+      const tests = compileConstraints(constraints, owner);
+      return (entity: IEntity) => tests.some(test => test(entity));
+    },
+  });
+};
+
+const noneOf = (constraint: TEntityRequirementConstraint): TEntityPredicate => {
+  return Object.assign(not(toPredicateCandidate(constraint)), {
+    [PREDICATE_META]: (owner: IRequirementOwner) => {
+      const [test] = compileConstraints([constraint], owner);
+      return (entity: IEntity) => !test(entity);
+    },
+  });
+};
+
+/**
+ * Trie of composite predicates keyed by sequence of their constraints.
+ * Function constraints are weakly held.
+ */
+interface ICompositePredicateNode {
+  keys: Map<TPropKey, ICompositePredicateNode>;
+  predicates: WeakMap<TEntityPredicate, ICompositePredicateNode>;
+  predicate?: TEntityPredicate;
+}
+
+const createCompositePredicateNode = (): ICompositePredicateNode => ({
+  keys      : new Map(),
+  predicates: new WeakMap(),
+});
+
+const anyPredicates = createCompositePredicateNode();
+const nonePredicates = createCompositePredicateNode();
+
+const getCompositePredicate = (
+  root: ICompositePredicateNode,
+  constraints: TEntityRequirementConstraint[],
+  build: () => TEntityPredicate,
+): TEntityPredicate => {
+  let node = root;
+  for (const constraint of constraints) {
+    let child = typeof constraint === 'function' ? node.predicates.get(constraint) : node.keys.get(constraint);
+    if (!child) {
+      child = createCompositePredicateNode();
+      if (typeof constraint === 'function') {
+        node.predicates.set(constraint, child);
+      } else {
+        node.keys.set(constraint, child);
+      }
+    }
+    node = child;
+  }
+
+  if (!node.predicate) {
+    node.predicate = build();
+  }
+  return node.predicate;
+};
+
+/**
+ * Live set of entities matching the descriptor. Created by Engine.query().
+ * Shares matching with system collections declaring the same requirements.
+ */
+export class Query implements IRequirementOwner, Iterable<IEntity> {
+  private _members: Set<IEntity>;
+  private _enterCallbacks: TQueryCallback[] = [];
+  private _exitCallbacks: TQueryCallback[] = [];
+  private _disposed = false;
+
+  constructor (private _engine: Engine, readonly descriptor: IQueryDescriptor) {
+    this._members = _engine._subscribeQuery(toRequirementList(descriptor), {
+      owner        : this,
+      entityAdded  : entity => this._notify(this._enterCallbacks, entity),
+      entityRemoved: entity => this._notify(this._exitCallbacks, entity),
+    });
+  }
+
+  getEngine (): Engine {
+    return this._engine;
+  }
+
+  get size (): number {
+    return this._members.size;
+  }
+
+  get disposed (): boolean {
+    return this._disposed;
+  }
+
+  [Symbol.iterator] (): Iterator<IEntity> {
+    return this._members[Symbol.iterator]();
+  }
+
+  has (entity: IEntity): boolean {
+    return this._members.has(entity);
+  }
+
+  first (): IEntity | undefined {
+    return this._members.values().next().value;
+  }
+
+  /**
+   * Called when entity starts matching the query. Current members are not reported
+   */
+  onEnter (callback: TQueryCallback): TUnsubscribe {
+    this._enterCallbacks = [...this._enterCallbacks, callback];
+    return () => {
+      this._enterCallbacks = this._enterCallbacks.filter(x => x !== callback);
+    };
+  }
+
+  /**
+   * Called when entity stops matching the query or gets removed from the engine
+   */
+  onExit (callback: TQueryCallback): TUnsubscribe {
+    this._exitCallbacks = [...this._exitCallbacks, callback];
+    return () => {
+      this._exitCallbacks = this._exitCallbacks.filter(x => x !== callback);
+    };
+  }
+
+  /**
+   * Stops maintaining the query. Disposed query is empty
+   */
+  dispose () {
+    if (this._disposed) {
+      return;
+    }
+    this._disposed = true;
+    this._engine._unsubscribeQuery(this);
+    this._members = new Set();
+    this._enterCallbacks = [];
+    this._exitCallbacks = [];
+  }
+
+  private _notify (callbacks: TQueryCallback[], entity: IEntity) {
+    for (const callback of callbacks) {
+      callback(entity);
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { IEntity } from './entity';
+
+export type TRelation = [IEntity, string, IEntity];
+
+/**
+ * Named directed relations between entities of an Engine, e.g. `a targets b`.
+ * Indexed both ways so relations of a removed target are dropped without scanning.
+ */
+export class RelationRegistry {
+  // source -> relation -> targets
+  private _targets: Map<IEntity, Map<string, Set<IEntity>>> = new Map();
+  // target -> relation -> sources
+  private _sources: Map<IEntity, Map<string, Set<IEntity>>> = new Map();
+
+  /**
+   * Returns false if the relation already exists
+   */
+  add (source: IEntity, relation: string, target: IEntity): boolean {
+    if (!RelationRegistry._link(this._targets, source, relation, target)) {
+      return false;
+    }
+    RelationRegistry._link(this._sources, target, relation, source);
+    return true;
+  }
+
+  /**
+   * Returns false if there was no such relation
+   */
+  delete (source: IEntity, relation: string, target: IEntity): boolean {
+    if (!RelationRegistry._unlink(this._targets, source, relation, target)) {
+      return false;
+    }
+    RelationRegistry._unlink(this._sources, target, relation, source);
+    return true;
+  }
+
+  has (source: IEntity, relation: string, target?: IEntity): boolean {
+    const targets = this._targets.get(source)?.get(relation);
+    if (!targets) {
+      return false;
+    }
+    return typeof target === 'undefined' || targets.has(target);
+  }
+
+  getTargets (source: IEntity, relation: string): IEntity[] {
+    return [...this._targets.get(source)?.get(relation) || []];
+  }
+
+  getSources (target: IEntity, relation: string): IEntity[] {
+    return [...this._sources.get(target)?.get(relation) || []];
+  }
+
+  /**
+   * Drops all relations of the entity in both directions.
+   * Returns sources which lost their relations to the entity.
+   */
+  deleteEntity (entity: IEntity): IEntity[] {
+    for (const [relation, targets] of this._targets.get(entity) || []) {
+      for (const target of targets) {
+        RelationRegistry._unlink(this._sources, target, relation, entity);
+      }
+    }
+    this._targets.delete(entity);
+
+    const affected = new Set<IEntity>();
+    for (const [relation, sources] of this._sources.get(entity) || []) {
+      for (const source of sources) {
+        RelationRegistry._unlink(this._targets, source, relation, entity);
+        affected.add(source);
+      }
+    }
+    this._sources.delete(entity);
+
+    return [...affected];
+  }
+
+  capture (): TRelation[] {
+    const relations: TRelation[] = [];
+    for (const [source, byRelation] of this._targets) {
+      for (const [relation, targets] of byRelation) {
+        for (const target of targets) {
+          relations.push([source, relation, target]);
+        }
+      }
+    }
+    return relations;
+  }
+
+  restore (relations: TRelation[]) {
+    this._targets.clear();
+    this._sources.clear();
+    for (const [source, relation, target] of relations) {
+      this.add(source, relation, target);
+    }
+  }
+
+  private static _link (index: Map<IEntity, Map<string, Set<IEntity>>>, from: IEntity, relation: string, to: IEntity): boolean {
+    let byRelation = index.get(from);
+    if (!byRelation) {
+      byRelation = new Map();
+      index.set(from, byRelation);
+    }
+
+    const entities = byRelation.get(relation);
+    if (!entities) {
+      byRelation.set(relation, new Set([to]));
+      return true;
+    }
+    if (entities.has(to)) {
+      return false;
+    }
+    entities.add(to);
+    return true;
+  }
+
+  private static _unlink (index: Map<IEntity, Map<string, Set<IEntity>>>, from: IEntity, relation: string, to: IEntity): boolean {
+    const byRelation = index.get(from);
+    const entities = byRelation?.get(relation);
+    if (!byRelation || !entities?.delete(to)) {
+      return false;
+    }
+
+    if (!entities.size) {
+      byRelation.delete(relation);
+      if (!byRelation.size) {
+        index.delete(from);
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,51 @@
+import { TPropKey } from './entity';
+import { ObserverRegistry } from './observers';
+
+/**
+ * World-wide singletons such as input state, config, camera or RNG.
+ * Insertion and removal are reported to engine observers.
+ */
+export class ResourceRegistry {
+  private _resources: Map<TPropKey, any> = new Map();
+
+  constructor (private _observers: ObserverRegistry) {}
+
+  get size (): number {
+    return this._resources.size;
+  }
+
+  /**
+   * Replaces existing resource under the key
+   */
+  insert<T> (key: TPropKey, value: T): T {
+    const previous = this._resources.get(key);
+    this._resources.set(key, value);
+    this._observers.resourceInserted(key, value, previous);
+    return value;
+  }
+
+  get<T = any> (key: TPropKey): T | undefined {
+    return this._resources.get(key);
+  }
+
+  has (key: TPropKey): boolean {
+    return this._resources.has(key);
+  }
+
+  /**
+   * Returns false if there was no such resource
+   */
+  remove (key: TPropKey): boolean {
+    if (!this._resources.has(key)) {
+      return false;
+    }
+    const value = this._resources.get(key);
+    this._resources.delete(key);
+    this._observers.resourceRemoved(key, value);
+    return true;
+  }
+
+  keys (): TPropKey[] {
+    return [...this._resources.keys()];
+  }
+}
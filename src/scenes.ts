@@ -0,0 +1,277 @@
+import { ENGINE, IEntity, IEntityProjection } from './entity';
+import { Engine } from './engine';
+import { System } from './system';
+import { SimplifiedSystem, TSystemUpdateMethod } from './simplified-system';
+import { TComponentRequirements } from './component-map';
+
+export type TSceneHook = (scene: Scene) => void;
+
+/**
+ * Scene setup. Entities and systems added through the scene in `enter()`
+ * are owned by it and removed on unload.
+ */
+export interface ISceneDefinition {
+  enter?: TSceneHook;
+  exit?: TSceneHook;
+  pause?: TSceneHook;
+  resume?: TSceneHook;
+}
+
+export interface ISceneActivateOptions {
+  // Keeps active scenes and stacks the scene over them
+  overlay: boolean;
+  // Pauses the scene below the overlay until the overlay is unloaded
+  pauseBelow: boolean;
+}
+
+export type TSceneState = 'active' | 'paused' | 'unloaded';
+
+export class Scene {
+  private _state: TSceneState = 'active';
+  private _entities: Set<IEntity> = new Set();
+  private _systems: Set<System> = new Set();
+  // Systems disabled by pause() to be enabled back on resume()
+  private _pausedSystems: System[] = [];
+
+  constructor (
+    readonly name: string,
+    private _engine: Engine,
+    private _definition: ISceneDefinition,
+  ) {}
+
+  get state (): TSceneState {
+    return this._state;
+  }
+
+  get entities (): IEntity[] {
+    return [...this._entities].filter(entity => entity[ENGINE] === this._engine);
+  }
+
+  get systems (): System[] {
+    return [...this._systems];
+  }
+
+  getEngine (): Engine {
+    return this._engine;
+  }
+
+  addEntity (candidate?: IEntity | IEntityProjection | null): IEntity {
+    this._assertLoaded();
+    return this.adopt(this._engine.addEntity(candidate));
+  }
+
+  /**
+   * Entities of child prefabs are owned by the scene as well
+   */
+  spawn (name: string, overrides?: IEntityProjection): IEntity {
+    this._assertLoaded();
+    const entity = this.adopt(this._engine.spawn(name, overrides));
+    for (const descendant of this._engine.getDescendants(entity)) {
+      this.adopt(descendant);
+    }
+    return entity;
+  }
+
+  addSystem<T extends System> (system: T): T {
+    this._assertLoaded();
+    this._engine.addSystem(system);
+    this._systems.add(system);
+    if (this._state === 'paused') {
+      this._pauseSystem(system);
+    }
+    return system;
+  }
+
+  addHandler<R extends TComponentRequirements | null = null> (
+    updateFn: TSystemUpdateMethod<R>,
+    requirements: R | null = null,
+  ): System<R> {
+    this._assertLoaded();
+    return this.addSystem(new SimplifiedSystem<R>(updateFn, requirements));
+  }
+
+  /**
+   * Makes the scene responsible for removal of the engine entity
+   */
+  adopt (entity: IEntity): IEntity {
+    this._entities.add(entity);
+    return entity;
+  }
+
+  /**
+   * Disables systems of the scene. Entities stay in the engine
+   */
+  pause () {
+    if (this._state !== 'active') {
+      return;
+    }
+    this._state = 'paused';
+    for (const system of this._systems) {
+      this._pauseSystem(system);
+    }
+    this._definition.pause?.(this);
+  }
+
+  resume () {
+    if (this._state !== 'paused') {
+      return;
+    }
+    this._state = 'active';
+    for (const system of this._pausedSystems) {
+      system.enabled = true;
+    }
+    this._pausedSystems = [];
+    this._definition.resume?.(this);
+  }
+
+  /**
+   * Called by SceneManager
+   */
+  _enter () {
+    this._definition.enter?.(this);
+  }
+
+  /**
+   * Called by SceneManager. Removes owned entities and systems
+   */
+  _unload () {
+    if (this._state === 'unloaded') {
+      return;
+    }
+
+    this._definition.exit?.(this);
+    this._state = 'unloaded';
+
+    for (const system of this._systems) {
+      this._engine.removeSystem(system);
+    }
+    for (const entity of this.entities) {
+      this._engine.removeEntity(entity);
+    }
+
+    this._systems.clear();
+    this._entities.clear();
+    this._pausedSystems = [];
+  }
+
+  private _pauseSystem (system: System) {
+    if (system.enabled) {
+      system.enabled = false;
+      this._pausedSystems.push(system);
+    }
+  }
+
+  private _assertLoaded () {
+    if (this._state === 'unloaded') {
+      throw new Error(`Scene "${this.name}" is unloaded`);
+    }
+  }
+}
+
+/**
+ * Keeps stack of active scenes. The last activated scene is on top.
+ */
+export class SceneManager {
+  private _definitions: Map<string, ISceneDefinition> = new Map();
+  private _stack: Scene[] = [];
+  // Scenes paused by the overlay above them
+  private _pausedBelow: Map<Scene, Scene> = new Map();
+
+  constructor (private _engine: Engine) {}
+
+  register (name: string, definition: ISceneDefinition = {}) {
+    if (this._definitions.has(name)) {
+      throw new Error(`Scene "${name}" is already registered`);
+    }
+    this._definitions.set(name, definition);
+  }
+
+  unregister (name: string) {
+    this._definitions.delete(name);
+  }
+
+  /**
+   * Active and paused scenes, bottom first
+   */
+  get stack (): Scene[] {
+    return [...this._stack];
+  }
+
+  get top (): Scene | undefined {
+    return this._stack[this._stack.length - 1];
+  }
+
+  get (name: string): Scene | undefined {
+    return this._stack.find(scene => scene.name === name);
+  }
+
+  /**
+   * Loads the scene. Unless `overlay` is set, scenes loaded before are unloaded.
+   */
+  activate (name: string, options: Partial<ISceneActivateOptions> = {}): Scene {
+    const { overlay = false, pauseBelow = true } = options;
+
+    const definition = this._definitions.get(name);
+    if (!definition) {
+      throw new Error(`Unknown scene "${name}"`);
+    }
+    if (this.get(name)) {
+      throw new Error(`Scene "${name}" is already active`);
+    }
+
+    const below = this.top;
+    if (!overlay) {
+      this.unloadAll();
+    }
+
+    const scene = new Scene(name, this._engine, definition);
+    this._stack.push(scene);
+
+    if (overlay && pauseBelow && below?.state === 'active') {
+      below.pause();
+      this._pausedBelow.set(scene, below);
+    }
+
+    scene._enter();
+    return scene;
+  }
+
+  pause (name: string) {
+    this._getActive(name).pause();
+  }
+
+  resume (name: string) {
+    this._getActive(name).resume();
+  }
+
+  /**
+   * Unloads the scene. Scene paused by it as an overlay is resumed.
+   */
+  unload (name: string) {
+    const scene = this._getActive(name);
+    this._stack = this._stack.filter(x => x !== scene);
+    scene._unload();
+
+    const below = this._pausedBelow.get(scene);
+    this._pausedBelow.delete(scene);
+    if (below && below.state !== 'unloaded') {
+      below.resume();
+    }
+  }
+
+  unloadAll () {
+    for (const scene of [...this._stack].reverse()) {
+      scene._unload();
+    }
+    this._stack = [];
+    this._pausedBelow.clear();
+  }
+
+  private _getActive (name: string): Scene {
+    const scene = this.get(name);
+    if (!scene) {
+      throw new Error(`Scene "${name}" is not active`);
+    }
+    return scene;
+  }
+}
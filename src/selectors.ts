@@ -1,5 +1,5 @@
-import { IEntity, CHANGED_PROPS } from './entity';
-import { TEntityPredicate, PREDICATE_META, System } from './system';
+import { IEntity, ADDED_PROPS, CHANGED_PROPS, REMOVED_PROPS, ENGINE, TPropKey } from './entity';
+import { TEntityPredicate, PREDICATE_META, IRequirementOwner } from './system';
 
 type PredicateCandidate = string|TEntityPredicate;
 const component_to_predicate = (c: PredicateCandidate): TEntityPredicate => {
@@ -43,12 +43,17 @@ export const and = (...components: PredicateCandidate[]) => {
   return (entity: IEntity) => predicates.every(p => p(entity));
 };
 
-export const on_changed = (...props: string[]) => {
+/**
+ * Matches entities which got any of the components assigned since the previous update.
+ * Props are registered as watched so re-assignment triggers refresh.
+ */
+export const on_changed = (...props: TPropKey[]) => {
   return Object.assign((e: IEntity) => {
-    return props.some(prop => e[CHANGED_PROPS].has(prop));
+    return props.some(prop => e[CHANGED_PROPS]?.has(prop));
   }, {
-    [PREDICATE_META]: (system: System) => {
-      const engine = system.getEngine();
+    [PREDICATE_META]: (owner: IRequirementOwner) => {
+      const engine = owner.getEngine();
+      engine._registerChangeSelector();
       for (const prop of props) {
         engine.addWatchedProperty(prop);
       }
@@ -56,3 +61,86 @@ export const on_changed = (...props: string[]) => {
   });
 };
 
+const change_selector_meta = {
+  [PREDICATE_META]: (owner: IRequirementOwner) => {
+    owner.getEngine()._registerChangeSelector();
+  },
+};
+
+/**
+ * Matches entities which got any of the components added since the previous update.
+ * Components of a newly added entity are treated as added.
+ */
+export const on_added = (...props: TPropKey[]) => {
+  return Object.assign((e: IEntity) => {
+    return props.some(prop => e[ADDED_PROPS]?.has(prop));
+  }, change_selector_meta);
+};
+
+/**
+ * Matches entities which got any of the components deleted since the previous update.
+ */
+export const on_removed = (...props: TPropKey[]) => {
+  return Object.assign((e: IEntity) => {
+    return props.some(prop => e[REMOVED_PROPS]?.has(prop));
+  }, change_selector_meta);
+};
+
+/**
+ * Matches entities having all of the tags (see Engine.tag()).
+ * In system requirements tags are tested with a single bitmask comparison.
+ */
+export const tagged = (...tags: string[]) => {
+  return Object.assign((e: IEntity) => {
+    return tags.every(tag => !!e[ENGINE]?.hasTag(e, tag));
+  }, { tags });
+};
+
+const hierarchy_selector_meta = {
+  [PREDICATE_META]: (owner: IRequirementOwner) => {
+    owner.getEngine()._registerHierarchySelector();
+  },
+};
+
+/**
+ * Matches entities attached to a parent (see Engine.setParent())
+ */
+export const has_parent = Object.assign((e: IEntity) => {
+  return !!e[ENGINE]?.getParent(e);
+}, hierarchy_selector_meta);
+
+/**
+ * Matches entities whose parent satisfies the component or predicate.
+ * Children are re-tested whenever their parent gets refreshed.
+ */
+export const child_of = (component: PredicateCandidate) => {
+  const predicate = component_to_predicate(component);
+  return Object.assign((e: IEntity) => {
+    const parent = e[ENGINE]?.getParent(e);
+    return !!parent && !!predicate(parent);
+  }, hierarchy_selector_meta);
+};
+
+const relation_selector_meta = {
+  [PREDICATE_META]: (owner: IRequirementOwner) => {
+    owner.getEngine()._registerRelationSelector();
+  },
+};
+
+/**
+ * Matches entities having at least one relation of the kind (see Engine.relate())
+ */
+export const related = (relation: string) => {
+  return Object.assign((e: IEntity) => {
+    return !!e[ENGINE]?.hasRelation(e, relation);
+  }, relation_selector_meta);
+};
+
+/**
+ * Matches entities having relation of the kind to the `target`
+ */
+export const related_to = (relation: string, target: IEntity) => {
+  return Object.assign((e: IEntity) => {
+    return !!e[ENGINE]?.hasRelation(e, relation, target);
+  }, relation_selector_meta);
+};
@@ -0,0 +1,199 @@
+import { Engine } from './engine';
+import { IEntity, TPropKey, getComponentKeys, isEntity, isEntityProjection } from './entity';
+
+export const WORLD_DOCUMENT_VERSION = 1;
+
+export interface ISerializedEntity {
+  id: number;
+  components: Record<string, any>;
+}
+
+export interface IWorldDocument {
+  version: number;
+  nextEntityId: number;
+  entities: ISerializedEntity[];
+  // Child-parent ID pairs
+  parents?: Array<[number, number]>;
+  // Source ID, relation, target ID
+  relations?: Array<[number, string, number]>;
+  // Entity ID, tag names
+  tags?: Array<[number, string[]]>;
+}
+
+export interface ICodecContext {
+  engine: Engine;
+
+  /**
+   * Returns ID of the entity if it belongs to the serialized world
+   */
+  getEntityId (entity: IEntity): number | undefined;
+
+  /**
+   * Resolves ID to the entity being loaded or already present in the engine
+   */
+  getEntity (id: number): IEntity | undefined;
+}
+
+/**
+ * Converts component value to JSON-safe data and back
+ */
+export interface IComponentCodec<T = any, S = any> {
+  encode (value: T, context: ICodecContext): S;
+  decode (data: S, context: ICodecContext): T;
+
+  /**
+   * Used by Engine.snapshot() instead of the default deep copy
+   */
+  clone? (value: T): T;
+}
+
+/**
+ * Stores entity references as IDs
+ */
+export const entityReferenceCodec: IComponentCodec<IEntity | null | undefined, number | null> = {
+  encode (entity, context) {
+    return (entity && context.getEntityId(entity)) ?? null;
+  },
+  decode (id, context) {
+    return id === null ? null : context.getEntity(id);
+  },
+};
+
+/**
+ * Stores Map as a list of entries. Values are passed through `valueCodec` if provided
+ */
+export const createMapCodec = <K, V>(valueCodec?: IComponentCodec<V>): IComponentCodec<Map<K, V>, Array<[K, any]>> => ({
+  encode (map, context) {
+    return [...map].map(([key, value]) => [key, valueCodec ? valueCodec.encode(value, context) : value]);
+  },
+  decode (entries, context) {
+    return new Map(entries.map(([key, value]) => [key, valueCodec ? valueCodec.decode(value, context) : value]));
+  },
+});
+
+/**
+ * Checks that JSON round trip preserves the value. Entities, Maps and
+ * class instances are rejected at any depth as they require a codec.
+ */
+const isJsonSafe = (value: any, visited: Set<object> = new Set()): boolean => {
+  if (value === null) {
+    return true;
+  }
+
+  switch (typeof value) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return true;
+    case 'object': {
+      if (isEntity(value) || isEntityProjection(value) || visited.has(value)) {
+        return false;
+      }
+
+      const proto = Object.getPrototypeOf(value);
+      if (!Array.isArray(value) && proto !== Object.prototype && proto !== null) {
+        return false;
+      }
+
+      visited.add(value);
+      const isSafe = Object.values(value).every(item => typeof item === 'undefined' || isJsonSafe(item, visited));
+      visited.delete(value);
+
+      return isSafe;
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Component codecs registered per component key.
+ * Symbol keys are stored in documents under the provided name.
+ */
+export class ComponentCodecRegistry {
+  private _codecs: Map<TPropKey, IComponentCodec> = new Map();
+  private _names: Map<TPropKey, string> = new Map();
+  private _keys: Map<string, TPropKey> = new Map();
+
+  register (key: TPropKey, codec: IComponentCodec, name?: string) {
+    if (typeof key === 'symbol') {
+      name = name ?? Symbol.keyFor(key) ?? key.description;
+      if (!name) {
+        throw new Error(`Symbol component requires a name to be serialized`);
+      }
+    } else {
+      name = String(key);
+    }
+
+    const registeredKey = this._keys.get(name);
+    if (typeof registeredKey !== 'undefined' && registeredKey !== key) {
+      throw new Error(`Component name "${name}" is already registered`);
+    }
+
+    this._codecs.set(key, codec);
+    this._names.set(key, name);
+    this._keys.set(name, key);
+  }
+
+  unregister (key: TPropKey) {
+    const name = this._names.get(key);
+    if (typeof name !== 'undefined') {
+      this._keys.delete(name);
+    }
+    this._names.delete(key);
+    this._codecs.delete(key);
+  }
+
+  get (key: TPropKey): IComponentCodec | undefined {
+    return this._codecs.get(key);
+  }
+
+  /**
+   * Returns document name of the key. Unregistered symbols have no name
+   */
+  getName (key: TPropKey): string | undefined {
+    if (typeof key !== 'symbol') {
+      return String(key);
+    }
+    return this._names.get(key);
+  }
+
+  getKey (name: string): TPropKey {
+    return this._keys.get(name) ?? name;
+  }
+
+  encodeEntity (entity: IEntity, id: number, context: ICodecContext): ISerializedEntity {
+    const components: Record<string, any> = {};
+
+    for (const key of getComponentKeys(entity)) {
+      const name = this.getName(key);
+      if (typeof name === 'undefined') {
+        continue;
+      }
+
+      // @ts-ignore
+      const value = entity[key];
+      const codec = this.get(key);
+
+      if (codec) {
+        components[name] = codec.encode(value, context);
+      } else if (isJsonSafe(value)) {
+        components[name] = JSON.parse(JSON.stringify(value));
+      } else if (typeof value !== 'undefined') {
+        throw new Error(`No codec registered for component "${name}"`);
+      }
+    }
+
+    return { id, components };
+  }
+
+  decodeEntity (data: ISerializedEntity, entity: IEntity, context: ICodecContext) {
+    for (const [name, value] of Object.entries(data.components)) {
+      const key = this.getKey(name);
+      const codec = this.get(key);
+
+      // @ts-ignore
+      entity[key] = codec ? codec.decode(value, context) : JSON.parse(JSON.stringify(value));
+    }
+  }
+}
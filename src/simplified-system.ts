@@ -1,19 +1,19 @@
-import { System, TEntityRequirements } from './system';
+import { System } from './system';
+import { TComponentRequirements } from './component-map';
 
-export type TSystemUpdateMethod = (this: System, dt: number) => void;
+export type TSystemUpdateMethod<R extends TComponentRequirements | null = any> = (this: System<R>, dt: number) => void;
 export const dummyUpdateMethod: TSystemUpdateMethod = (_dt: number) => {
 };
 
 /**
  * Used for simplified handler declaration via engine.add()
  */
-export class SimplifiedSystem extends System {
-  private _updateHandler: TSystemUpdateMethod = dummyUpdateMethod;
+export class SimplifiedSystem<R extends TComponentRequirements | null = any> extends System<R> {
+  private _updateHandler: TSystemUpdateMethod<R> = dummyUpdateMethod;
 
-  constructor (update: TSystemUpdateMethod, requirements: TEntityRequirements = null) {
+  constructor (update: TSystemUpdateMethod<R>, requirements: R | null = null) {
     super(requirements);
     this._updateHandler = update;
-    this.requirements = requirements;
   }
 
   update = (dt: number) => {
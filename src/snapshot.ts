@@ -0,0 +1,101 @@
+import { IEntity, IEntityHandle, TPropKey, isEntity, isEntityProjection } from './entity';
+import { System } from './system';
+import { IndexedQuery } from './query-index';
+import { TRelation } from './relations';
+
+export interface IEntitySnapshot {
+  entity: IEntity;
+  id: number;
+  handle?: IEntityHandle;
+  components: Array<[TPropKey, any]>;
+  deletedComponents: Array<[TPropKey, any]>;
+  added: TPropKey[];
+  changed: TPropKey[];
+  removed: TPropKey[];
+  tags?: number[];
+}
+
+/**
+ * In-memory state of the world produced by Engine.snapshot().
+ * Entity objects are referenced rather than copied,
+ * so references to entities stay valid after Engine.restore().
+ */
+export interface IWorldSnapshot {
+  readonly entityIdCounter: number;
+  readonly entities: IEntitySnapshot[];
+  readonly store: IEntity[];
+  readonly addQueue: IEntity[];
+  readonly refreshQueue: IEntity[];
+  readonly releaseQueue: IEntity[];
+  readonly refreshedMidFrame: IEntity[];
+  readonly withChanges: IEntity[];
+  readonly changedKeys: Array<[IEntity, TPropKey[] | null]>;
+  readonly handleSlots: Array<IEntity | undefined>;
+  readonly handleGenerations: number[];
+  readonly freeHandleIndexes: number[];
+  readonly queries: Map<IndexedQuery, IEntity[]>;
+  // Child-parent pairs
+  readonly parents: Array<[IEntity, IEntity]>;
+  readonly relations: TRelation[];
+  readonly collections: Map<System, Record<string, IEntity[]>>;
+}
+
+/**
+ * Deep copies component value.
+ * Entity references, functions and primitives are kept as is,
+ * class instances keep their prototype. Shared and circular references are preserved.
+ */
+export const cloneComponent = <T>(value: T, copies: Map<any, any> = new Map()): T => {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const source: any = value;
+
+  if (isEntity(source) || isEntityProjection(source)) {
+    return value;
+  }
+
+  if (copies.has(source)) {
+    return copies.get(source);
+  }
+
+  if (Array.isArray(source)) {
+    const copy: any[] = [];
+    copies.set(source, copy);
+    for (const item of source) {
+      copy.push(cloneComponent(item, copies));
+    }
+    return copy as any;
+  }
+
+  if (source instanceof Map) {
+    const copy = new Map();
+    copies.set(source, copy);
+    for (const [key, item] of source) {
+      copy.set(key, cloneComponent(item, copies));
+    }
+    return copy as any;
+  }
+
+  if (source instanceof Set) {
+    const copy = new Set();
+    copies.set(source, copy);
+    for (const item of source) {
+      copy.add(cloneComponent(item, copies));
+    }
+    return copy as any;
+  }
+
+  if (source instanceof Date) {
+    return new Date(source.getTime()) as any;
+  }
+
+  const copy = Object.create(Object.getPrototypeOf(source));
+  copies.set(source, copy);
+  for (const key of Reflect.ownKeys(source)) {
+    copy[key] = cloneComponent(source[key], copies);
+  }
+
+  return copy;
+};
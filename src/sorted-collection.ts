@@ -0,0 +1,176 @@
+import { IEntity, TPropKey } from './entity';
+import { TEntityRequirementConstraint, TEntityRequirementList } from './system';
+
+export const SORT_ORDER = Symbol.for('Collection sort order');
+
+export type TSortKey = TPropKey | ((entity: IEntity) => number | string);
+
+export interface ISortOrder {
+  // Component name or function providing value entities are ordered by
+  key?: TSortKey;
+  // Used instead of `key` comparison
+  compare?: (a: IEntity, b: IEntity) => number;
+  // Components affecting the order. Component `key` is watched implicitly
+  watch?: TPropKey[];
+  descending?: boolean;
+}
+
+export interface ISortedRequirementList extends Array<TEntityRequirementConstraint> {
+  [SORT_ORDER]?: ISortOrder;
+}
+
+/**
+ * Marks requirement list to produce a collection kept in order, e.g.
+ * `{ sprites: sorted(['sprite', 'z'], { key: 'z' }) }`
+ */
+export const sorted = (
+  requirementList: TEntityRequirementList | TEntityRequirementConstraint,
+  order: ISortOrder,
+): ISortedRequirementList => {
+  const list: ISortedRequirementList = Array.isArray(requirementList) ? [...requirementList] : [requirementList];
+  list[SORT_ORDER] = order;
+  return list;
+};
+
+export const getSortOrder = (requirementList: TEntityRequirementList): ISortOrder | undefined => {
+  return (requirementList as ISortedRequirementList)[SORT_ORDER];
+};
+
+const compareValues = (a: any, b: any): number => {
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+/**
+ * System collection iterated in the requested order.
+ * Entities are inserted with binary search, equal ones keep insertion order.
+ * Iteration is not affected by changes made during it.
+ */
+export class SortedEntitySet extends Set<IEntity> {
+  readonly watchedKeys: TPropKey[];
+  private readonly _compare: (a: IEntity, b: IEntity) => number;
+  private _order: IEntity[] = [];
+  // Running iterations over `_order`. It is copied before a change while any is live
+  private _iterators = 0;
+
+  constructor (order: ISortOrder) {
+    super();
+
+    const { key, compare, watch = [], descending = false } = order;
+    let comparator = compare;
+    if (!comparator) {
+      const getKey = typeof key === 'function' ? key : (entity: any) => entity[key!];
+      comparator = (a, b) => compareValues(getKey(a), getKey(b));
+    }
+    this._compare = descending ? (a, b) => comparator!(b, a) : comparator;
+
+    this.watchedKeys = typeof key === 'undefined' || typeof key === 'function'
+      ? [...watch]
+      : [key, ...watch];
+  }
+
+  add (entity: IEntity): this {
+    if (super.has(entity)) {
+      return this;
+    }
+    super.add(entity);
+    this._insert(entity);
+    return this;
+  }
+
+  delete (entity: IEntity): boolean {
+    if (!super.delete(entity)) {
+      return false;
+    }
+    this._remove(entity);
+    return true;
+  }
+
+  clear () {
+    super.clear();
+    this._order = [];
+    this._iterators = 0;
+  }
+
+  /**
+   * Moves the entity according to its current sort key
+   */
+  reposition (entity: IEntity) {
+    if (!super.has(entity)) {
+      return;
+    }
+    this._remove(entity);
+    this._insert(entity);
+  }
+
+  [Symbol.iterator] (): IterableIterator<IEntity> {
+    return this._iterate();
+  }
+
+  values (): IterableIterator<IEntity> {
+    return this._iterate();
+  }
+
+  keys (): IterableIterator<IEntity> {
+    return this._iterate();
+  }
+
+  *entries (): IterableIterator<[IEntity, IEntity]> {
+    for (const entity of this._iterate()) {
+      yield [entity, entity];
+    }
+  }
+
+  forEach (callback: (value: IEntity, key: IEntity, set: Set<IEntity>) => void, thisArg?: any) {
+    for (const entity of this._iterate()) {
+      callback.call(thisArg, entity, entity, this);
+    }
+  }
+
+  private *_iterate (): IterableIterator<IEntity> {
+    const order = this._order;
+    this._iterators++;
+    try {
+      yield* order;
+    } finally {
+      // Iterations of replaced arrays are not counted anymore
+      if (order === this._order) {
+        this._iterators--;
+      }
+    }
+  }
+
+  private _beforeChange () {
+    if (this._iterators) {
+      this._order = this._order.slice();
+      this._iterators = 0;
+    }
+  }
+
+  private _remove (entity: IEntity) {
+    // Sort key may be already changed so binary search is not reliable here
+    const index = this._order.indexOf(entity);
+    if (index !== -1) {
+      this._beforeChange();
+      this._order.splice(index, 1);
+    }
+  }
+
+  private _insert (entity: IEntity) {
+    const order = this._order;
+
+    // Upper bound keeps insertion order of equal entities
+    let low = 0;
+    let high = order.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this._compare(order[middle], entity) <= 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    this._beforeChange();
+    this._order.splice(low, 0, entity);
+  }
+}
@@ -0,0 +1,230 @@
+import { IEntity } from './entity';
+import { Engine } from './engine';
+import { Query } from './query';
+import { TUnsubscribe } from './observers';
+
+export interface IPoint {
+  x: number;
+  y: number;
+}
+
+export interface ISpatialIndexOptions {
+  // Component holding `{ x, y }` position
+  component: string | symbol;
+  // Size of a grid cell. Close to a typical query radius works best
+  cellSize: number;
+}
+
+export interface ICircleRegion extends IPoint {
+  radius: number;
+}
+
+export interface IRectRegion extends IPoint {
+  width: number;
+  height: number;
+}
+
+export type TRegion = ICircleRegion | IRectRegion;
+
+const distanceSq = (a: IPoint, x: number, y: number): number => {
+  return (a.x - x) ** 2 + (a.y - y) ** 2;
+};
+
+export const isPointInRegion = (point: IPoint, region: TRegion): boolean => {
+  if ('radius' in region) {
+    return distanceSq(point, region.x, region.y) <= region.radius ** 2;
+  }
+  return point.x >= region.x && point.x <= region.x + region.width
+    && point.y >= region.y && point.y <= region.y + region.height;
+};
+
+/**
+ * Uniform grid of entities having the position component.
+ * Position is tracked when the component is (re)assigned,
+ * in-place mutations have to be reported with `update()`.
+ */
+export class SpatialIndex {
+  readonly options: Readonly<ISpatialIndexOptions>;
+
+  private _cells: Map<string, Set<IEntity>> = new Map();
+  private _entityCells: Map<IEntity, string> = new Map();
+  private _query: Query;
+  private _unsubscribe: TUnsubscribe[];
+
+  constructor (private _engine: Engine, options: Partial<ISpatialIndexOptions> = {}) {
+    this.options = {
+      component: 'position',
+      cellSize : 64,
+      ...options,
+    };
+
+    const { component } = this.options;
+    _engine.addWatchedProperty(component);
+
+    this._query = _engine.query({ all: [component] });
+    for (const entity of this._query) {
+      this.update(entity);
+    }
+
+    this._unsubscribe = [
+      this._query.onEnter(entity => this.update(entity)),
+      this._query.onExit(entity => this._remove(entity)),
+      _engine.observe({
+        components      : [component],
+        componentChanged: entity => {
+          if (this._query.has(entity)) {
+            this.update(entity);
+          }
+        },
+      }),
+    ];
+  }
+
+  get size (): number {
+    return this._entityCells.size;
+  }
+
+  /**
+   * Moves entity to the cell of its current position.
+   * Entities without position or with non-finite coordinates are not indexed.
+   */
+  update (entity: IEntity) {
+    const position: IPoint | undefined = this._getPosition(entity);
+    if (!position || !Number.isFinite(position.x) || !Number.isFinite(position.y)) {
+      this._remove(entity);
+      return;
+    }
+
+    const key = this._getCellKey(position);
+    const previous = this._entityCells.get(entity);
+    if (previous === key) {
+      return;
+    }
+
+    if (typeof previous !== 'undefined') {
+      this._removeFromCell(entity, previous);
+    }
+
+    let cell = this._cells.get(key);
+    if (!cell) {
+      cell = new Set();
+      this._cells.set(key, cell);
+    }
+    cell.add(entity);
+    this._entityCells.set(entity, key);
+  }
+
+  queryRadius (x: number, y: number, radius: number): IEntity[] {
+    const region: ICircleRegion = { x, y, radius };
+    return this._collect(x - radius, y - radius, x + radius, y + radius, region);
+  }
+
+  queryRect (x: number, y: number, width: number, height: number): IEntity[] {
+    const region: IRectRegion = { x, y, width, height };
+    return this._collect(x, y, x + width, y + height, region);
+  }
+
+  /**
+   * Returns up to `k` entities closest to the point, nearest first
+   */
+  nearest (x: number, y: number, k: number = 1): IEntity[] {
+    const byDistance = (a: IEntity, b: IEntity) => {
+      return distanceSq(this._getPosition(a), x, y) - distanceSq(this._getPosition(b), x, y);
+    };
+
+    const { cellSize } = this.options;
+
+    // Entities within the radius are closer than any outside of it.
+    // Once the radius spans more cells than there are entities sorting all of them is cheaper.
+    let radius = cellSize;
+    while ((2 * Math.ceil(radius / cellSize) + 1) ** 2 <= this.size) {
+      const found = this.queryRadius(x, y, radius);
+      if (found.length >= k) {
+        return found.sort(byDistance).slice(0, k);
+      }
+      radius *= 2;
+    }
+
+    return [...this._entityCells.keys()].sort(byDistance).slice(0, k);
+  }
+
+  isWithin (entity: IEntity, region: TRegion): boolean {
+    const position = this._getPosition(entity);
+    return !!position && isPointInRegion(position, region);
+  }
+
+  dispose () {
+    for (const unsubscribe of this._unsubscribe) {
+      unsubscribe();
+    }
+    this._query.dispose();
+    this._cells.clear();
+    this._entityCells.clear();
+  }
+
+  private _collect (minX: number, minY: number, maxX: number, maxY: number, region: TRegion): IEntity[] {
+    const { cellSize } = this.options;
+    const result: IEntity[] = [];
+
+    const minCX = Math.floor(minX / cellSize);
+    const minCY = Math.floor(minY / cellSize);
+    const maxCX = Math.floor(maxX / cellSize);
+    const maxCY = Math.floor(maxY / cellSize);
+
+    // Visiting mostly empty cells of a large area costs more than testing every entity
+    if ((maxCX - minCX + 1) * (maxCY - minCY + 1) > this.size) {
+      for (const entity of this._entityCells.keys()) {
+        if (isPointInRegion(this._getPosition(entity), region)) {
+          result.push(entity);
+        }
+      }
+      return result;
+    }
+
+    for (let cx = minCX; cx <= maxCX; cx++) {
+      for (let cy = minCY; cy <= maxCY; cy++) {
+        for (const entity of this._cells.get(`${cx},${cy}`) || []) {
+          if (isPointInRegion(this._getPosition(entity), region)) {
+            result.push(entity);
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private _remove (entity: IEntity) {
+    const key = this._entityCells.get(entity);
+    if (typeof key !== 'undefined') {
+      this._removeFromCell(entity, key);
+      this._entityCells.delete(entity);
+    }
+  }
+
+  private _removeFromCell (entity: IEntity, key: string) {
+    const cell = this._cells.get(key);
+    cell?.delete(entity);
+    if (cell && !cell.size) {
+      this._cells.delete(key);
+    }
+  }
+
+  private _getPosition (entity: IEntity): IPoint {
+    // @ts-ignore
+    return entity[this.options.component];
+  }
+
+  private _getCellKey ({ x, y }: IPoint): string {
+    const { cellSize } = this.options;
+    return `${Math.floor(x / cellSize)},${Math.floor(y / cellSize)}`;
+  }
+}
+
+/**
+ * Matches entities of the spatial index located within the region.
+ * Region object may be mutated, entities are re-tested on their refresh.
+ */
+export const within_region = (index: SpatialIndex, region: TRegion) => {
+  return (e: IEntity) => index.isWithin(e, region);
+};
@@ -0,0 +1,110 @@
+import { System, TSystemOrderTarget } from './system';
+
+const matchesTarget = (system: System, target: TSystemOrderTarget): boolean => {
+  if (typeof target === 'function') {
+    return system instanceof target;
+  }
+  return system.label === target;
+};
+
+export const getSystemName = (system: System): string => {
+  return system.label ?? system.constructor.name;
+};
+
+/**
+ * Looks for a cycle among systems left after topological sort
+ */
+const findCycle = (systems: System[], edges: Map<System, Set<System>>): System[] => {
+  const visited = new Set<System>();
+  const path: System[] = [];
+
+  const visit = (system: System): System[] | void => {
+    const index = path.indexOf(system);
+    if (index !== -1) {
+      return [...path.slice(index), system];
+    }
+    if (visited.has(system)) {
+      return;
+    }
+    visited.add(system);
+    path.push(system);
+
+    for (const next of edges.get(system)!) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+
+    path.pop();
+  };
+
+  for (const system of systems) {
+    const cycle = visit(system);
+    if (cycle) return cycle;
+  }
+
+  return systems;
+};
+
+/**
+ * Orders systems according to `runBefore` / `runAfter` constraints.
+ * Ties are resolved by `priority` and then by `sequence` (i.e. order of addition).
+ * Throws if constraints form a cycle.
+ */
+export const sortSystems = (systems: System[], sequence: (system: System) => number): System[] => {
+  const edges = new Map<System, Set<System>>();
+  const inDegree = new Map<System, number>();
+
+  for (const system of systems) {
+    edges.set(system, new Set());
+    inDegree.set(system, 0);
+  }
+
+  const addEdge = (from: System, to: System) => {
+    const targets = edges.get(from)!;
+    if (from === to || targets.has(to)) {
+      return;
+    }
+    targets.add(to);
+    inDegree.set(to, inDegree.get(to)! + 1);
+  };
+
+  for (const system of systems) {
+    for (const other of systems) {
+      if (system.runBefore.some(target => matchesTarget(other, target))) {
+        addEdge(system, other);
+      }
+      if (system.runAfter.some(target => matchesTarget(other, target))) {
+        addEdge(other, system);
+      }
+    }
+  }
+
+  const compare = (a: System, b: System) => {
+    return (a.priority - b.priority) || (sequence(a) - sequence(b));
+  };
+
+  const ready = systems.filter(system => inDegree.get(system) === 0);
+  const sorted: System[] = [];
+
+  while (ready.length) {
+    ready.sort(compare);
+    const system = ready.shift()!;
+    sorted.push(system);
+
+    for (const next of edges.get(system)!) {
+      const degree = inDegree.get(next)! - 1;
+      inDegree.set(next, degree);
+      if (degree === 0) {
+        ready.push(next);
+      }
+    }
+  }
+
+  if (sorted.length !== systems.length) {
+    const remaining = systems.filter(system => !sorted.includes(system));
+    const cycle = findCycle(remaining, edges);
+    throw new Error(`Systems ordering contains a cycle: ${cycle.map(getSystemName).join(' -> ')}`);
+  }
+
+  return sorted;
+};
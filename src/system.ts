@@ -1,12 +1,26 @@
-import { DELETED_PROPS, IEntity, TPropKey } from "./entity";
+import { DELETED_PROPS, IEntity, TAGS, TPropKey } from "./entity";
 import { Engine } from "./engine";
 import { logger } from './auxiliary';
+import { CommandBuffer } from './command-buffer';
+import { EventChannel, EventReader } from './events';
+import { TComponentRequirements, TTypedEntities } from './component-map';
+import { hasBits } from './tags';
+import { SortedEntitySet, getSortOrder } from './sorted-collection';
 
 export const PREDICATE_META = Symbol.for('Predicate setup meta function');
 
+/**
+ * System or standalone Query requirements are compiled for
+ */
+export interface IRequirementOwner {
+  getEngine (): Engine;
+}
+
 export interface TEntityPredicate {
   (entity: IEntity): boolean;
-  [PREDICATE_META]?: (system: System) => TEntityPredicate;
+  [PREDICATE_META]? (owner: IRequirementOwner): TEntityPredicate;
+  // Tags matched with a single bitmask comparison (see `tagged()`)
+  tags?: string[];
 }
 
 export type TEntityRequirementPredicate = TEntityPredicate;
@@ -20,12 +34,82 @@ export type TEntityStore = Record<string, TEntitiesList>;
 
 export type TEntities = Record<string, Iterable<IEntity>>;
 
-export class System {
+/**
+ * System class or label referenced by ordering constraints
+ */
+export type TSystemOrderTarget = string | (new (...args: any[]) => System);
+
+/**
+ * `R` types `entities` collections against ComponentMap, e.g.
+ * `class Movement extends System<{ movers: ['location', 'velocity'] }>`
+ */
+export class System<R extends TComponentRequirements | null = any> {
   public enabled: boolean = true;
   private _engine!: Engine;
 
   public priority = 5;
 
+  /**
+   * Runs with `Engine.options.fixedTimeStep` delta,
+   * zero or more times per `Engine.update()` call
+   */
+  public fixedStep = false;
+
+  /**
+   * Multiplier of time delta the system receives
+   */
+  public timeScale = 1;
+
+  /**
+   * Ignores `Engine.timeScale` (but not own `timeScale`), e.g. for UI animations
+   */
+  public unscaledTime = false;
+
+  /**
+   * Keeps the system running while Engine is paused
+   */
+  public ignorePause = false;
+
+  /**
+   * Amount of exceptions thrown by `update()`
+   */
+  public errorCount = 0;
+
+  /**
+   * Name of Engine stage the system runs in. Read by `Engine.prototype.addSystem`
+   */
+  public stage = 'update';
+
+  /**
+   * Name used by `runBefore` / `runAfter` of other systems and in error messages
+   */
+  public label?: string;
+
+  /**
+   * Ordering constraints against other system classes or labels.
+   * `priority` is used as a tie-breaker.
+   */
+  public runBefore: TSystemOrderTarget[] = [];
+  public runAfter: TSystemOrderTarget[] = [];
+
+  /**
+   * Deferred structural changes. Applied by Engine right after `update()`
+   */
+  public readonly commands: CommandBuffer = new CommandBuffer();
+
+  /**
+   * Event channels the system reads with `readEvents()`.
+   * Pending events qualify the system for update even without matched entities.
+   */
+  public eventChannels: EventChannel<any>[] = [];
+  private _eventReaders: Map<EventChannel<any>, EventReader<any>> = new Map();
+
+  /**
+   * Engine resources the system depends on.
+   * The system is skipped while any of them is missing.
+   */
+  public resources: TPropKey[] = [];
+
   /**
    * Defines list(s) of entities with required components.
    * For example:
@@ -70,23 +154,24 @@ export class System {
     return this._requirements;
   }
   set requirements (value: TEntityRequirements) {
-    this.setRequirements(value);
+    this.setRequirements(value as R | null);
   }
   private _requirements: TEntityRequirements = null;
 
-  setRequirements (value: TEntityRequirements) {
+  setRequirements (value: R | null) {
     if (!value) {
       this._requirements = null;
       return;
     }
 
-    for (const [key, constr] of Object.entries(value)) {
+    const requirements = value as Record<string, any>;
+    for (const [key, constr] of Object.entries(requirements)) {
       if (typeof constr === 'string' || typeof constr === 'symbol' || typeof constr === 'function') {
-        value[key] = [constr];
+        requirements[key] = [constr];
       }
     }
 
-    this._requirements = value;
+    this._requirements = requirements;
   }
 
   protected _entityStore!: TEntityStore;
@@ -106,17 +191,17 @@ export class System {
     return this._entityProxy;
   }
 
-  public get entities(): TEntities {
+  public get entities(): TTypedEntities<R> {
     if (!this._entityProxy) {
       this._initEntityProxy();
     }
 
-    return this._entityProxy!;
+    return this._entityProxy as unknown as TTypedEntities<R>;
   }
 
   private _entitiesInitialized: boolean = false;
 
-  constructor (requirements: TEntityRequirements = null, ...tail: any[]) {
+  constructor (requirements: R | null = null, ...tail: any[]) {
     if (tail.length) {
       logger.warn(`System doesn't expect multiple arguments. For multi-component query - group components in array.\nextra args:`, tail);
     }
@@ -143,19 +228,78 @@ export class System {
     }
 
     this._entityStore = {};
-    for (const key of Object.keys(this._requirements)) {
-      this._entityStore[key] = new Set<IEntity>();
+    for (const [key, requirementList] of Object.entries(this._requirements)) {
+      const order = getSortOrder(requirementList);
+      this._entityStore[key] = order ? new SortedEntitySet(order) : new Set<IEntity>();
+    }
+  }
+
+  /**
+   * Collections declared with `sorted()`
+   */
+  _getSortedCollections (): SortedEntitySet[] {
+    if (!this._entityStore) {
+      return [];
     }
+    return Object.values(this._entityStore)
+      .filter((collection): collection is SortedEntitySet => collection instanceof SortedEntitySet);
   }
 
   setEngine (engine: Engine) {
     this._engine = engine;
+
+    this._releaseEventReaders();
+    for (const channel of this.eventChannels) {
+      this._eventReaders.set(channel, engine.events.reader(channel));
+    }
+  }
+
+  /**
+   * Called from `Engine.prototype.removeSystem` method
+   */
+  _releaseEventReaders () {
+    for (const reader of this._eventReaders.values()) {
+      reader.dispose();
+    }
+    this._eventReaders.clear();
+  }
+
+  /**
+   * Returns events emitted to the channel since the previous call
+   */
+  readEvents<T> (channel: EventChannel<T>): T[] {
+    const reader = this._eventReaders.get(channel);
+    if (!reader) {
+      throw new Error(`Event channel "${channel.name}" is not listed in eventChannels`);
+    }
+    return reader.read();
+  }
+
+  hasPendingEvents (): boolean {
+    for (const reader of this._eventReaders.values()) {
+      if (reader.pending) {
+        return true;
+      }
+    }
+    return false;
   }
 
   getEngine (): Engine {
     return this._engine;
   }
 
+  /**
+   * Shortcut for `getEngine().resources.get()`
+   */
+  getResource<T = any> (key: TPropKey): T | undefined {
+    return this._engine.resources.get<T>(key);
+  }
+
+  hasRequiredResources (): boolean {
+    const resources = this._engine?.resources;
+    return this.resources.every(key => resources?.has(key));
+  }
+
   update (dt: number) {};
 
   private _testFunctionCache = new Map<Array<TEntityRequirementConstraint>, TEntityPredicate>();
@@ -167,19 +311,7 @@ export class System {
       return cacheEntry;
     }
 
-    const tests = requirementList.map(predicate => {
-      if (typeof predicate === 'string' || typeof predicate === 'symbol') {
-        return (entity: IEntity) => predicate in entity;
-      } else if (typeof predicate === 'function') {
-        const override = predicate[PREDICATE_META]?.(this);
-        if (override) return override;
-        return predicate;
-      }
-    }).filter((x): x is TEntityRequirementPredicate => !!x);
-
-    const testFn: TEntityPredicate = (entity: IEntity) => {
-      return tests.every(test => test(entity));
-    };
+    const testFn = compileRequirementList(requirementList, this);
 
     this._testFunctionCache.set(requirementList, testFn);
 
@@ -262,10 +394,18 @@ export class System {
    * Used to determine if the system should be update by Engine next tick
    */
   isQualifiedForUpdate(): boolean {
+    if (!this.hasRequiredResources()) {
+      return false;
+    }
+
     if (!this._entityStore) {
       return true; // Systems without requirements are `global`
     }
 
+    if (this.hasPendingEvents()) {
+      return true;
+    }
+
     for (const list of Object.values(this._entityStore)) {
       if (list.size) {
         return true;
@@ -313,6 +453,48 @@ export class System {
 
   }
 
+  getCollectionSizes (): Record<string, number> {
+    const sizes: Record<string, number> = {};
+    if (this._entityStore) {
+      for (const [collectionName, collection] of Object.entries(this._entityStore)) {
+        sizes[collectionName] = collection.size;
+      }
+    }
+    return sizes;
+  }
+
+  /**
+   * Used by Engine.snapshot()
+   */
+  _captureCollections (): Record<string, IEntity[]> {
+    const collections: Record<string, IEntity[]> = {};
+    if (this._entityStore) {
+      for (const [collectionName, collection] of Object.entries(this._entityStore)) {
+        collections[collectionName] = [...collection];
+      }
+    }
+    return collections;
+  }
+
+  /**
+   * Replaces collections content without firing onEntityAdded() / onEntityRemoved().
+   * Used by Engine.restore()
+   */
+  _restoreCollections (collections: Record<string, IEntity[]>) {
+    if (!this._entityStore) {
+      return;
+    }
+    for (const [collectionName, entities] of Object.entries(collections)) {
+      const collection = this._entityStore[collectionName];
+      if (!collection) continue;
+
+      collection.clear();
+      for (const entity of entities) {
+        collection.add(entity);
+      }
+    }
+  }
+
   getComponentFrom (entity: IEntity, key: TPropKey): any {
     // @ts-ignore
     return entity[key] || entity[DELETED_PROPS].get(key);
@@ -320,6 +502,41 @@ export class System {
 
 }
 
+/**
+ * Builds a single predicate testing every constraint of the list.
+ * `owner` is passed to PREDICATE_META setup functions.
+ */
+export const compileRequirementList = (
+  requirementList: TEntityRequirementList,
+  owner: IRequirementOwner,
+): TEntityPredicate => {
+  const engine = owner.getEngine();
+  const tags: string[] = [];
+
+  const tests = requirementList.map(predicate => {
+    if (typeof predicate === 'string' || typeof predicate === 'symbol') {
+      return (entity: IEntity) => predicate in entity;
+    } else if (typeof predicate === 'function') {
+      if (predicate.tags && engine) {
+        tags.push(...predicate.tags);
+        return;
+      }
+      const override = predicate[PREDICATE_META]?.(owner);
+      if (override) return override;
+      return predicate;
+    }
+  }).filter((x): x is TEntityRequirementPredicate => !!x);
+
+  if (tags.length) {
+    const mask = engine.tags.getMask(tags);
+    tests.unshift((entity: IEntity) => hasBits(entity[TAGS], mask));
+  }
+
+  return (entity: IEntity) => {
+    return tests.every(test => test(entity));
+  };
+};
+
 export const isSystem = (system: any): system is System => {
   return system instanceof System;
 };
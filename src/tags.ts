@@ -0,0 +1,107 @@
+import { TAGS, TARGET, IEntity } from './entity';
+
+const WORD_SIZE = 32;
+
+/**
+ * Key reported as changed when the tag is set or cleared.
+ * Lets the query index re-test only queries requiring the tag.
+ */
+export const getTagKey = (tag: string): symbol => Symbol.for(`Tag ${tag}`);
+
+/**
+ * Tests if every bit of `mask` is set in `bits`
+ */
+export const hasBits = (bits: number[] | undefined, mask: number[]): boolean => {
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] && ((bits?.[i] || 0) & mask[i]) !== mask[i]) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Assigns bit indexes to tag names of an Engine.
+ * Tags of an entity are stored as a bitset under `entity[TAGS]`.
+ */
+export class TagRegistry {
+  private _bits: Map<string, number> = new Map();
+  private _names: string[] = [];
+
+  get size (): number {
+    return this._names.length;
+  }
+
+  /**
+   * Returns bit index of the tag allocating one for a new tag
+   */
+  getBit (tag: string): number {
+    let bit = this._bits.get(tag);
+    if (typeof bit === 'undefined') {
+      bit = this._names.length;
+      this._bits.set(tag, bit);
+      this._names.push(tag);
+    }
+    return bit;
+  }
+
+  getMask (tags: string[]): number[] {
+    const mask: number[] = [];
+    for (const tag of tags) {
+      const bit = this.getBit(tag);
+      const word = Math.floor(bit / WORD_SIZE);
+      for (let i = mask.length; i <= word; i++) {
+        mask[i] = 0;
+      }
+      mask[word] |= 1 << (bit % WORD_SIZE);
+    }
+    return mask;
+  }
+
+  getNames (bits: number[] | undefined): string[] {
+    return this._names.filter((_, bit) => TagRegistry._isSet(bits, bit));
+  }
+
+  has (entity: IEntity, tag: string): boolean {
+    const bit = this._bits.get(tag);
+    return typeof bit !== 'undefined' && TagRegistry._isSet(entity[TAGS], bit);
+  }
+
+  /**
+   * Returns false if the entity already had the tag
+   */
+  set (entity: IEntity, tag: string): boolean {
+    const bit = this.getBit(tag);
+    if (TagRegistry._isSet(entity[TAGS], bit)) {
+      return false;
+    }
+
+    // Written to the proxy target to bypass change tracking
+    const target = entity[TARGET];
+    const bits = target[TAGS] || (target[TAGS] = []);
+    const word = Math.floor(bit / WORD_SIZE);
+    for (let i = bits.length; i <= word; i++) {
+      bits[i] = 0;
+    }
+    bits[word] |= 1 << (bit % WORD_SIZE);
+    return true;
+  }
+
+  /**
+   * Returns false if the entity didn't have the tag
+   */
+  clear (entity: IEntity, tag: string): boolean {
+    const bit = this._bits.get(tag);
+    if (typeof bit === 'undefined' || !TagRegistry._isSet(entity[TAGS], bit)) {
+      return false;
+    }
+
+    entity[TARGET][TAGS]![Math.floor(bit / WORD_SIZE)] &= ~(1 << (bit % WORD_SIZE));
+    return true;
+  }
+
+  private static _isSet (bits: number[] | undefined, bit: number): boolean {
+    const word = bits?.[Math.floor(bit / WORD_SIZE)] || 0;
+    return (word & (1 << (bit % WORD_SIZE))) !== 0;
+  }
+}
@@ -0,0 +1,101 @@
+export type TTimerCallback = () => void;
+
+/**
+ * Handle of a scheduled callback
+ */
+export class Timer {
+  private _active = true;
+
+  constructor (
+    public dueTime: number,
+    readonly interval: number | null,
+    readonly callback: TTimerCallback,
+  ) {}
+
+  get active (): boolean {
+    return this._active;
+  }
+
+  cancel () {
+    this._active = false;
+  }
+}
+
+/**
+ * Callbacks driven by accumulated Engine time instead of wall clock
+ */
+export class TimerScheduler {
+  private _time = 0;
+  private _timers: Timer[] = [];
+  // Timers created by callbacks of the running update are fired starting from the next one
+  private _added: Timer[] | null = null;
+
+  /**
+   * Time accumulated by update() calls
+   */
+  get time (): number {
+    return this._time;
+  }
+
+  get size (): number {
+    return this._timers.filter(timer => timer.active).length + (this._added?.length || 0);
+  }
+
+  schedule (delay: number, callback: TTimerCallback): Timer {
+    return this._add(new Timer(this._time + delay, null, callback));
+  }
+
+  every (interval: number, callback: TTimerCallback): Timer {
+    if (!(interval > 0)) {
+      throw new Error(`Timer interval has to be positive, got ${interval}`);
+    }
+    return this._add(new Timer(this._time + interval, interval, callback));
+  }
+
+  /**
+   * Advances time firing due callbacks in order of their due time.
+   * Repeating timers fire once per elapsed interval.
+   */
+  update (dt: number) {
+    this._time += dt;
+    this._added = [];
+
+    try {
+      let timer = this._nextDue();
+      while (timer) {
+        if (timer.interval === null) {
+          timer.cancel();
+        } else {
+          timer.dueTime += timer.interval;
+        }
+        timer.callback();
+        timer = this._nextDue();
+      }
+    } finally {
+      this._timers = [...this._timers.filter(timer => timer.active), ...this._added];
+      this._added = null;
+    }
+  }
+
+  clear () {
+    for (const timer of this._timers) {
+      timer.cancel();
+    }
+    this._timers = [];
+  }
+
+  private _add (timer: Timer): Timer {
+    (this._added || this._timers).push(timer);
+    return timer;
+  }
+
+  private _nextDue (): Timer | undefined {
+    let next: Timer | undefined;
+    for (const timer of this._timers) {
+      if (timer.active && timer.dueTime <= this._time && (!next || timer.dueTime < next.dueTime)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+}
@@ -0,0 +1,169 @@
+import {
+  Engine,
+  SimplifiedSystem,
+  ADDED_PROPS,
+  CHANGED_PROPS,
+  REMOVED_PROPS,
+  on_added,
+  on_changed,
+  on_removed,
+} from '../src';
+
+describe(`Change tracking`, () => {
+
+  describe(`entity change sets`, () => {
+    it(`should treat components of a new entity as added`, () => {
+      const engine = new Engine();
+      const e = engine.addEntity({ foo: 1, bar: 2 });
+
+      expect([...e[ADDED_PROPS]]).toEqual(['foo', 'bar']);
+      expect(e[CHANGED_PROPS].size).toBe(0);
+      expect(e[REMOVED_PROPS].size).toBe(0);
+    });
+
+    it(`should track added, changed and removed components`, () => {
+      const engine = new Engine();
+      engine.addWatchedProperty('watched');
+      const e = engine.addEntity({ watched: 1, gone: true });
+      engine.update(0);
+
+      e.fresh = 1;
+      e.watched = 2;
+      delete e.gone;
+
+      expect(e[ADDED_PROPS].has('fresh')).toBe(true);
+      expect(e[CHANGED_PROPS].has('watched')).toBe(true);
+      expect(e[REMOVED_PROPS].has('gone')).toBe(true);
+    });
+
+    it(`should not track assignments of non-watched existing props`, () => {
+      const engine = new Engine();
+      const e = engine.addEntity({ foo: 1 });
+      engine.update(0);
+
+      e.foo = 2;
+
+      expect(e[CHANGED_PROPS].size).toBe(0);
+    });
+
+    it(`should be cleared on update`, () => {
+      const engine = new Engine();
+      const e = engine.addEntity({ foo: 1 });
+
+      engine.update(0);
+
+      expect(e[ADDED_PROPS].size).toBe(0);
+    });
+  });
+
+  describe(`selectors`, () => {
+    it(`on_added() should match entity for a single update`, () => {
+      const engine = new Engine();
+      const handler = jest.fn();
+      const system = engine.addHandler(handler, { q: [on_added('foo')] });
+      const entities = system.getEntities('q') as Set<any>;
+      const e = engine.addEntity({});
+
+      engine.update(0);
+      expect(handler).toHaveBeenCalledTimes(0);
+
+      e.foo = 1;
+      engine.update(0);
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(entities.has(e)).toBe(true);
+
+      engine.update(0);
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(entities.has(e)).toBe(false);
+    });
+
+    it(`on_changed() should match entity for a single update`, () => {
+      const engine = new Engine();
+      const handler = jest.fn();
+      engine.addHandler(handler, { q: [on_changed('foo')] });
+      const e = engine.addEntity({ foo: 1 });
+
+      engine.update(0);
+      expect(handler).toHaveBeenCalledTimes(0);
+
+      e.foo = 2;
+      engine.update(0);
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      engine.update(0);
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      e.foo = 3;
+      engine.update(0);
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it(`on_changed() should match change made in earlier stage only within the frame`, () => {
+      const engine = new Engine();
+      const frames: number[] = [];
+      const writer = new SimplifiedSystem(() => {
+        if (engine.frame === 2) {
+          e.foo = 2;
+        }
+      });
+      writer.stage = 'preUpdate';
+      engine.addSystem(writer);
+      engine.addHandler(function () {
+        if ([...this.getEntities('q')].length) {
+          frames.push(engine.frame);
+        }
+      }, { q: [on_changed('foo')] });
+      const e = engine.addEntity({ foo: 1 });
+
+      for (let i = 0; i < 4; i++) {
+        engine.update(0);
+      }
+
+      expect(frames).toEqual([2]);
+    });
+
+    it(`on_changed() should match change made in last stage on the next frame`, () => {
+      const engine = new Engine();
+      const frames: number[] = [];
+      engine.addHandler(function () {
+        if ([...this.getEntities('q')].length) {
+          frames.push(engine.frame);
+        }
+      }, { q: [on_changed('foo')] });
+      const writer = new SimplifiedSystem(() => {
+        if (engine.frame === 2) {
+          e.foo = 2;
+        }
+      });
+      writer.stage = 'render';
+      engine.addSystem(writer);
+      const e = engine.addEntity({ foo: 1 });
+
+      for (let i = 0; i < 4; i++) {
+        engine.update(0);
+      }
+
+      expect(frames).toEqual([3]);
+    });
+
+    it(`on_removed() should match entity for a single update`, () => {
+      const engine = new Engine();
+      const removed = jest.fn();
+      engine.addHandler(function () {
+        for (const e of this.getEntities('q')) {
+          removed(e);
+        }
+      }, { q: [on_removed('foo')] });
+      const e = engine.addEntity({ foo: 1 });
+
+      engine.update(0);
+
+      delete e.foo;
+      engine.update(0);
+      engine.update(0);
+
+      expect(removed).toHaveBeenCalledTimes(1);
+    });
+  });
+
+});
@@ -0,0 +1,69 @@
+import { Engine, System } from '../src';
+
+describe(`Command buffer`, () => {
+
+  it(`should defer structural changes until system update ends`, () => {
+    const engine = new Engine({ lazyEntityRefresh: false });
+    const visited: any[] = [];
+    const sizes: number[] = [];
+
+    engine.addHandler(function () {
+      for (const entity of this.getEntities()) {
+        visited.push(entity.name);
+        this.commands.remove(entity, 'foo');
+        this.commands.spawn({ name: `${entity.name}-child`, foo: true });
+      }
+      sizes.push(this.getEngine().entities.size);
+    }, { default: ['foo'] });
+
+    engine.addEntity({ name: 'a', foo: true });
+    engine.addEntity({ name: 'b', foo: true });
+
+    engine.update(0);
+    expect(visited).toEqual(['a', 'b']);
+    expect(engine.entities.size).toBe(4);
+
+    engine.update(0);
+    expect(visited).toEqual(['a', 'b', 'a-child', 'b-child']);
+    expect(sizes).toEqual([2, 4]);
+  });
+
+  it(`should return spawned entity to record further commands`, () => {
+    const engine = new Engine();
+    const system = engine.addSystem(new System());
+
+    const entity = system.commands.spawn();
+    system.commands.add(entity, 'foo', 123);
+    system.commands.destroy(entity);
+    expect(system.commands.size).toBe(3);
+
+    system.commands.apply(engine);
+
+    expect(entity.foo).toBe(123);
+    expect(engine.entities.has(entity)).toBe(false);
+  });
+
+  it(`should discard commands of a failed system`, () => {
+    const engine = new Engine();
+    jest.spyOn(console, 'error').mockImplementationOnce(() => {});
+
+    engine.addHandler(function () {
+      this.commands.spawn();
+      throw new Error('failure');
+    });
+    engine.update(0);
+
+    expect(engine.entities.size).toBe(0);
+  });
+
+  it(`should apply engine commands at the next sync point`, () => {
+    const engine = new Engine();
+
+    const entity = engine.commands.spawn({ foo: true });
+    expect(engine.entities.size).toBe(0);
+
+    engine.update(0);
+    expect(engine.entities.has(entity)).toBe(true);
+  });
+
+});
@@ -0,0 +1,55 @@
+import { Engine, System, TEntityOf } from '../src';
+
+interface ITestComponents {
+  location: { x: number, y: number };
+  velocity: { x: number, y: number };
+}
+
+describe(`Component map`, () => {
+  it(`should type entities of requirement list`, () => {
+    const engine = new Engine();
+    const entity = engine.addEntity({ location: { x: 1, y: 2 }, velocity: { x: 3, y: 4 } });
+
+    const mover = entity as TEntityOf<['location', 'velocity'], ITestComponents>;
+    const x: number = mover.location.x + mover.velocity.x;
+
+    expect(x).toBe(4);
+  });
+
+  // ComponentMap is not augmented here (see test/types), so components are untyped
+  it(`should type system collections`, () => {
+    const engine = new Engine();
+    const entity = engine.addEntity({ location: { x: 1, y: 2 }, velocity: { x: 3, y: 4 } });
+
+    class Movement extends System<{ movers: ['location', 'velocity'] }> {
+      constructor () {
+        super({ movers: ['location', 'velocity'] });
+      }
+
+      update (dt: number) {
+        for (const e of this.entities.movers) {
+          e.location.x += e.velocity.x * dt;
+        }
+      }
+    }
+
+    engine.addSystem(new Movement());
+    engine.update(1);
+
+    expect(entity.location.x).toBe(4);
+  });
+
+  it(`should keep handler requirements working`, () => {
+    const engine = new Engine();
+    const handler = jest.fn(function (this: System) {
+      return [...this.entities.movers];
+    });
+
+    const system = engine.addHandler(handler, { movers: ['location'] });
+    const entity = engine.addEntity({ location: {} });
+    engine.update(0);
+
+    expect(handler).toHaveReturnedWith([entity]);
+    expect([...system.entities.movers]).toEqual([entity]);
+  });
+});
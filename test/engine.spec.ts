@@ -177,14 +177,22 @@ describe(`addSystem()`, () => {
   });
 
   it(`should run refresh against existing entities`, () => {
-    const entity = engine.addEntity();
-    const system = new System();
-    system.refreshEntityStatus = jest.fn();
+    const entity = engine.addEntity({ component: true });
+    const system = new System({ default: ['component'] });
 
     engine.addSystem(system);
 
-    expect((system.refreshEntityStatus as any).mock.calls)
-      .toEqual([expect.arrayContaining([entity])]);
+    expect([...system.getEntities()]).toEqual([entity]);
+  });
+
+  it(`should reuse matches of identical requirements`, () => {
+    const entity = engine.addEntity({ a: 1, b: 2 });
+    const system1 = engine.addSystem(new System({ default: ['a', 'b'] }));
+    const system2 = engine.addSystem(new System({ default: ['b', 'a'] }));
+
+    expect((engine as any)._queryIndex.size).toBe(1);
+    expect([...system1.getEntities()]).toEqual([entity]);
+    expect([...system2.getEntities()]).toEqual([entity]);
   });
 
   // it(`should not run refresh if option provided`, () => {
@@ -213,16 +221,35 @@ describe(`markEntityChanged()`, () => {
 });
 
 describe(`refreshEntity()`, () => {
-  it(`should run refreshEntity() over all systems`, () => {
+  it(`should refresh entity affiliation for all systems`, () => {
     engine = new Engine({ lazyEntityRefresh: true });
-    const system = engine.addHandler(() => {}) as System;
-    system.refreshEntityStatus = jest.fn();
+    const system1 = engine.addHandler(() => {}, { default: ['component'] }) as System;
+    const system2 = engine.addHandler(() => {}, { default: ['component'] }) as System;
 
-    const entity = engine.addEntity(); // add new entity to refresh queue
+    const entity = engine.addEntity({ component: true }); // add new entity to refresh queue
 
     engine.refreshEntity(entity);
 
-    expect(system.refreshEntityStatus).toHaveBeenCalled();
+    expect([...system1.getEntities()]).toEqual([entity]);
+    expect([...system2.getEntities()]).toEqual([entity]);
+  });
+
+  it(`should re-test only requirements mentioning changed components`, () => {
+    engine = new Engine({ lazyEntityRefresh: false });
+    const system = engine.addHandler(() => {}, { foo: ['foo'], bar: ['bar'] }) as System;
+    const entity = engine.addEntity({ foo: 1, bar: 2 });
+    const onEntityAdded = system.onEntityAdded = jest.fn();
+    const onEntityRemoved = system.onEntityRemoved = jest.fn();
+
+    delete entity.bar;
+
+    expect(onEntityRemoved).toHaveBeenCalledTimes(1);
+    expect(onEntityRemoved).toHaveBeenCalledWith(entity, expect.any(Map), 'bar');
+
+    entity.bar = 3;
+
+    expect(onEntityAdded).toHaveBeenCalledTimes(1);
+    expect(onEntityAdded).toHaveBeenCalledWith(entity, 'bar');
   });
 
   it(`should remove entity from update queue`, () => {
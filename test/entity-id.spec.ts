@@ -1,4 +1,5 @@
 import { Engine, ENTITY_ID } from '../src';
+import { get_id } from '../src/helpers';
 
 describe(`Entity ID`, () => {
   it(`should be start from 1`, () => {
@@ -25,4 +26,62 @@ describe(`Entity ID`, () => {
     expect(e2[ENTITY_ID]).toBe(1); // engine2 assigned 1
   });
 
+  describe(`getEntityById()`, () => {
+    it(`should return added entity`, () => {
+      const engine = new Engine();
+      const e = engine.addEntity({});
+
+      expect(engine.getEntityById(get_id(e))).toBe(e);
+    });
+
+    it(`should return undefined after entity removal`, () => {
+      const engine = new Engine();
+      const e = engine.addEntity({});
+
+      engine.removeEntity(e);
+
+      expect(engine.getEntityById(get_id(e))).toBeUndefined();
+    });
+
+    it(`should be maintained when entity moves to another engine`, () => {
+      const engine1 = new Engine();
+      const engine2 = new Engine();
+      const e = engine1.addEntity({});
+      const id1 = get_id(e);
+
+      engine2.addEntity(e);
+
+      expect(engine1.getEntityById(id1)).toBeUndefined();
+      expect(engine2.getEntityById(get_id(e))).toBe(e);
+    });
+  });
+
+  describe(`Generational handle`, () => {
+    it(`should resolve to the entity`, () => {
+      const engine = new Engine();
+      const e = engine.addEntity({});
+      const handle = engine.getEntityHandle(e)!;
+
+      expect(engine.getEntityByHandle(handle)).toBe(e);
+    });
+
+    it(`should resolve to undefined when slot is reused`, () => {
+      const engine = new Engine();
+      const e1 = engine.addEntity({});
+      const handle1 = engine.getEntityHandle(e1)!;
+
+      engine.removeEntity(e1);
+      expect(engine.getEntityHandle(e1)).toBeUndefined();
+      expect(engine.getEntityByHandle(handle1)).toBeUndefined();
+
+      const e2 = engine.addEntity({});
+      const handle2 = engine.getEntityHandle(e2)!;
+
+      expect(handle2.index).toBe(handle1.index);
+      expect(handle2.generation).not.toBe(handle1.generation);
+      expect(engine.getEntityByHandle(handle1)).toBeUndefined();
+      expect(engine.getEntityByHandle(handle2)).toBe(e2);
+    });
+  });
+
 });
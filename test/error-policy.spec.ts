@@ -0,0 +1,99 @@
+import { Engine, SystemDisabled, retryWithBackoff } from '../src';
+
+describe(`System error policy`, () => {
+  const error = new Error('failure');
+
+  const addFailingSystem = (engine: Engine) => {
+    const update = jest.fn(() => { throw error; });
+    const system = engine.addHandler(update);
+    return { system, update };
+  };
+
+  it(`should disable system by default`, () => {
+    const engine = new Engine();
+    const logSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const reader = engine.events.reader(SystemDisabled);
+    const { system, update } = addFailingSystem(engine);
+
+    engine.update(1);
+    engine.update(1);
+
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(system.enabled).toBe(false);
+    expect(system.errorCount).toBe(1);
+    expect(reader.read()).toEqual([{ system, error, frame: 1, dt: 1 }]);
+    logSpy.mockRestore();
+  });
+
+  it(`should skip system for the frame`, () => {
+    const engine = new Engine({ errorPolicy: 'skip' });
+    const { system, update } = addFailingSystem(engine);
+
+    engine.update(1);
+    engine.update(1);
+
+    expect(update).toHaveBeenCalledTimes(2);
+    expect(system.enabled).toBe(true);
+    expect(system.errorCount).toBe(2);
+  });
+
+  it(`should rethrow`, () => {
+    const engine = new Engine({ errorPolicy: 'rethrow' });
+    addFailingSystem(engine);
+
+    expect(() => engine.update(1)).toThrow(error);
+  });
+
+  it(`should retry with backoff and disable after max attempts`, () => {
+    const engine = new Engine({ errorPolicy: retryWithBackoff(1, 2) });
+    const { system, update } = addFailingSystem(engine);
+
+    const calls: number[] = [];
+    for (let i = 0; i < 8; i++) {
+      engine.update(1);
+      calls.push(update.mock.calls.length);
+    }
+
+    // fails on frames 1, 2 (after 1 frame delay) and 4 (after 2 frames delay)
+    expect(calls).toEqual([1, 2, 2, 3, 3, 3, 3, 3]);
+    expect(system.enabled).toBe(false);
+  });
+
+  it(`should reset backoff after successful update`, () => {
+    const engine = new Engine({ errorPolicy: retryWithBackoff(1, 1) });
+    let fail = true;
+    const system = engine.addHandler(() => {
+      if (fail) throw error;
+    });
+
+    engine.update(1);
+    fail = false;
+    engine.update(1);
+    fail = true;
+    engine.update(1);
+
+    expect(system.enabled).toBe(true);
+    expect(system.errorCount).toBe(2);
+  });
+
+  it(`should call custom handler with context`, () => {
+    const onSystemError = jest.fn(() => 'disable' as const);
+    const engine = new Engine({ errorPolicy: onSystemError });
+    jest.spyOn(console, 'error').mockImplementationOnce(() => {});
+    const { system } = addFailingSystem(engine);
+
+    engine.update(0.5);
+
+    expect(onSystemError).toHaveBeenCalledWith(system, error, { system, error, frame: 1, dt: 0.5 });
+    expect(system.enabled).toBe(false);
+  });
+
+  it(`should skip when custom handler returns nothing`, () => {
+    const engine = new Engine({ errorPolicy: () => {} });
+    const { system } = addFailingSystem(engine);
+
+    engine.update(1);
+
+    expect(system.enabled).toBe(true);
+  });
+});
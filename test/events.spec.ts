@@ -0,0 +1,110 @@
+import { Engine, EventBus, System, createEventChannel } from '../src';
+
+interface IDamage {
+  amount: number;
+}
+
+const Damage = createEventChannel<IDamage>('damage');
+
+describe(`Events`, () => {
+
+  describe(`EventBus`, () => {
+    it(`should deliver each event once per reader`, () => {
+      const bus = new EventBus();
+      const reader1 = bus.reader(Damage);
+      const reader2 = bus.reader(Damage);
+
+      bus.emit(Damage, { amount: 1 });
+
+      expect(reader1.read()).toEqual([{ amount: 1 }]);
+      expect(reader1.read()).toEqual([]);
+
+      bus.emit(Damage, { amount: 2 });
+
+      expect(reader1.read()).toEqual([{ amount: 2 }]);
+      expect(reader2.read()).toEqual([{ amount: 1 }, { amount: 2 }]);
+    });
+
+    it(`should drop events consumed by all readers`, () => {
+      const bus = new EventBus(100);
+      const reader = bus.reader(Damage);
+
+      bus.emit(Damage, { amount: 1 });
+      reader.read();
+      bus.update();
+
+      expect(bus.reader(Damage).pending).toBe(0);
+    });
+
+    it(`should drop events after max age`, () => {
+      const bus = new EventBus(2);
+      const reader = bus.reader(Damage);
+
+      bus.emit(Damage, { amount: 1 });
+      bus.update();
+      expect(reader.pending).toBe(1);
+
+      bus.update();
+      expect(reader.pending).toBe(0);
+      expect(reader.read()).toEqual([]);
+    });
+
+    it(`should not hold events for disposed readers`, () => {
+      const bus = new EventBus(100);
+      const reader = bus.reader(Damage);
+      reader.dispose();
+
+      bus.emit(Damage, { amount: 1 });
+      bus.update();
+
+      expect(bus.reader(Damage).pending).toBe(1);
+    });
+  });
+
+  describe(`System integration`, () => {
+    class DamageSystem extends System {
+      eventChannels = [Damage];
+      received: IDamage[] = [];
+
+      update () {
+        this.received.push(...this.readEvents(Damage));
+      }
+    }
+
+    it(`should run system with pending events and no matched entities`, () => {
+      const engine = new Engine();
+      const system = new DamageSystem({ default: ['health'] });
+      engine.addSystem(system);
+
+      engine.update(0);
+      expect(system.received).toEqual([]);
+
+      engine.events.emit(Damage, { amount: 5 });
+      engine.update(0);
+      engine.update(0);
+
+      expect(system.received).toEqual([{ amount: 5 }]);
+    });
+
+    it(`should deliver events emitted by later systems on the next update`, () => {
+      const engine = new Engine();
+      const system = engine.addSystem(new DamageSystem()) as DamageSystem;
+      engine.addHandler(function () {
+        this.getEngine().events.emit(Damage, { amount: 1 });
+      });
+
+      engine.update(0);
+      engine.update(0);
+
+      expect(system.received).toEqual([{ amount: 1 }]);
+    });
+
+    it(`should throw on undeclared channel`, () => {
+      const engine = new Engine();
+      const system = engine.addSystem(new System());
+
+      expect(() => system.readEvents(Damage)).toThrow(`Event channel "damage" is not listed in eventChannels`);
+    });
+  });
+
+});
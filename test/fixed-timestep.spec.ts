@@ -0,0 +1,95 @@
+import { Engine, SimplifiedSystem, System } from '../src';
+
+describe(`Fixed timestep`, () => {
+  const createEngine = () => new Engine({ fixedTimeStep: 0.25, maxSubSteps: 4 });
+
+  class FixedSystem extends System {
+    fixedStep = true;
+    update = jest.fn();
+  }
+
+  class VariableSystem extends System {
+    update = jest.fn();
+  }
+
+  it(`should run fixed systems per accumulated step`, () => {
+    const engine = createEngine();
+    const system = engine.addSystem(new FixedSystem()) as FixedSystem;
+
+    engine.update(0.1);
+    expect(system.update).toHaveBeenCalledTimes(0);
+
+    engine.update(0.2);
+    expect(system.update).toHaveBeenCalledTimes(1);
+    expect(system.update).toHaveBeenCalledWith(0.25);
+
+    engine.update(0.5);
+    expect(system.update).toHaveBeenCalledTimes(3);
+  });
+
+  it(`should run variable systems once with frame delta`, () => {
+    const engine = createEngine();
+    const system = engine.addSystem(new VariableSystem()) as VariableSystem;
+
+    engine.update(0.6);
+
+    expect(system.update).toHaveBeenCalledTimes(1);
+    expect(system.update).toHaveBeenCalledWith(0.6);
+  });
+
+  it(`should limit steps per update`, () => {
+    const engine = createEngine();
+    const system = engine.addSystem(new FixedSystem()) as FixedSystem;
+
+    engine.update(10);
+    expect(system.update).toHaveBeenCalledTimes(4);
+
+    engine.update(0);
+    expect(system.update).toHaveBeenCalledTimes(4);
+  });
+
+  it(`should expose interpolation alpha`, () => {
+    const engine = createEngine();
+
+    engine.update(0.375);
+
+    expect(engine.alpha).toBe(0.5);
+  });
+
+  it(`should run fixed steps within their stage`, () => {
+    const engine = createEngine();
+    const log: string[] = [];
+    const track = (name: string, stage: string, fixedStep: boolean) => {
+      const system = new SimplifiedSystem(() => { log.push(name); });
+      system.stage = stage;
+      system.fixedStep = fixedStep;
+      engine.addSystem(system);
+    };
+
+    track('physics', 'update', true);
+    track('input', 'preUpdate', false);
+    track('render', 'render', false);
+
+    engine.update(0.5);
+
+    expect(log).toEqual(['input', 'physics', 'physics', 'render']);
+  });
+
+  it(`should make entities added during a step visible to the next step`, () => {
+    const engine = new Engine({ fixedTimeStep: 0.25, lazyEntityRefresh: true });
+    const seen: number[] = [];
+
+    engine.addSystem(new class extends System {
+      fixedStep = true;
+      update () {
+        seen.push([...this.getEntities()].length);
+        this.getEngine().addEntity({ foo: true });
+      }
+    }({ default: ['foo'] }));
+    engine.addEntity({ foo: true });
+
+    engine.update(0.5);
+
+    expect(seen).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,152 @@
+import { Engine, child_of, has_parent } from '../src';
+
+describe(`Hierarchy`, () => {
+  let engine: Engine;
+
+  beforeEach(() => {
+    engine = new Engine();
+  });
+
+  it(`should link parent and children`, () => {
+    const parent = engine.addEntity({});
+    const c1 = engine.addEntity({});
+    const c2 = engine.addEntity({});
+
+    engine.setParent(c1, parent);
+    engine.setParent(c2, parent);
+
+    expect(engine.getParent(c1)).toBe(parent);
+    expect(engine.getChildren(parent)).toEqual([c1, c2]);
+
+    engine.setParent(c1, null);
+    expect(engine.getParent(c1)).toBeUndefined();
+    expect(engine.getChildren(parent)).toEqual([c2]);
+  });
+
+  it(`should move child between parents`, () => {
+    const p1 = engine.addEntity({});
+    const p2 = engine.addEntity({});
+    const child = engine.addEntity({});
+
+    engine.setParent(child, p1);
+    engine.setParent(child, p2);
+
+    expect(engine.getChildren(p1)).toEqual([]);
+    expect(engine.getChildren(p2)).toEqual([child]);
+  });
+
+  it(`should reject cycles`, () => {
+    const a = engine.addEntity({});
+    const b = engine.addEntity({});
+    engine.setParent(b, a);
+
+    expect(() => engine.setParent(a, b)).toThrow();
+    expect(() => engine.setParent(a, a)).toThrow();
+  });
+
+  it(`should reject entities of another engine`, () => {
+    const foreign = new Engine().addEntity({});
+    const child = engine.addEntity({});
+
+    expect(() => engine.setParent(child, foreign)).toThrow(`Entity doesn't belong to the engine`);
+  });
+
+  it(`should detach children of removed entity`, () => {
+    const parent = engine.addEntity({});
+    const child = engine.addEntity({});
+    engine.setParent(child, parent);
+
+    engine.removeEntity(parent);
+
+    expect(engine.entities.has(child)).toBe(true);
+    expect(engine.getParent(child)).toBeUndefined();
+  });
+
+  it(`should cascade removal to descendants`, () => {
+    const root = engine.addEntity({});
+    const child = engine.addEntity({});
+    const grandchild = engine.addEntity({});
+    engine.setParent(child, root);
+    engine.setParent(grandchild, child);
+
+    expect(engine.getDescendants(root)).toEqual([child, grandchild]);
+
+    engine.removeEntity(root, true);
+
+    expect(engine.entities.size).toBe(0);
+    expect(engine.getChildren(root)).toEqual([]);
+    expect(engine.getParent(grandchild)).toBeUndefined();
+  });
+
+  it(`should cascade by default with options.cascadeRemove`, () => {
+    engine = new Engine({ cascadeRemove: true });
+    const parent = engine.addEntity({});
+    engine.setParent(engine.addEntity({}), parent);
+
+    engine.removeEntity(parent);
+
+    expect(engine.entities.size).toBe(0);
+  });
+
+  it(`should attach prefab children`, () => {
+    engine.registerPrefab('sword', { components: { damage: 1 } });
+    engine.registerPrefab('knight', { children: { weapon: 'sword' } });
+
+    const knight = engine.spawn('knight');
+
+    expect(engine.getChildren(knight)).toEqual([knight.weapon]);
+  });
+
+  it(`should keep hierarchy through snapshot and serialization`, () => {
+    const parent = engine.addEntity({ name: 'parent' });
+    const child = engine.addEntity({ name: 'child' });
+    engine.setParent(child, parent);
+
+    const snapshot = engine.snapshot();
+    engine.setParent(child, null);
+    engine.restore(snapshot);
+    expect(engine.getParent(child)).toBe(parent);
+
+    const other = new Engine();
+    other.load(engine.serialize());
+    const [loadedParent, loadedChild] = [...other.entities];
+    expect(other.getParent(loadedChild)).toBe(loadedParent);
+  });
+
+  describe(`selectors`, () => {
+    it(`has_parent should track attachment`, () => {
+      const system = engine.addHandler(() => {}, { attached: [has_parent] });
+      const entities = system.getEntities('attached') as Set<any>;
+      const parent = engine.addEntity({});
+      const child = engine.addEntity({});
+      engine.update(0);
+      expect(entities.size).toBe(0);
+
+      engine.setParent(child, parent);
+      engine.update(0);
+      expect([...entities]).toEqual([child]);
+
+      engine.removeEntity(parent);
+      engine.update(0);
+      expect(entities.size).toBe(0);
+    });
+
+    it(`child_of() should re-test children when parent changes`, () => {
+      const system = engine.addHandler(() => {}, { weapons: ['damage', child_of('armed')] });
+      const entities = system.getEntities('weapons') as Set<any>;
+      const owner = engine.addEntity({});
+      const weapon = engine.addEntity({ damage: 1 });
+      engine.setParent(weapon, owner);
+      engine.update(0);
+      expect(entities.size).toBe(0);
+
+      owner.armed = true;
+      engine.update(0);
+      expect([...entities]).toEqual([weapon]);
+
+      delete owner.armed;
+      engine.update(0);
+      expect(entities.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { Engine } from '../src';
+
+describe(`Engine observers`, () => {
+
+  it(`should report entity addition and removal`, () => {
+    const engine = new Engine();
+    const entityAdded = jest.fn();
+    const entityRemoved = jest.fn();
+    engine.observe({ entityAdded, entityRemoved });
+
+    const e = engine.addEntity({});
+    expect(entityAdded).toHaveBeenCalledWith(e);
+
+    engine.removeEntity(e);
+    engine.removeEntity(e);
+    expect(entityRemoved).toHaveBeenCalledTimes(1);
+    expect(entityRemoved).toHaveBeenCalledWith(e);
+  });
+
+  it(`should report component lifecycle`, () => {
+    const engine = new Engine();
+    const componentAdded = jest.fn();
+    const componentChanged = jest.fn();
+    const componentRemoved = jest.fn();
+    engine.observe({ componentAdded, componentChanged, componentRemoved });
+
+    const e = engine.addEntity({ foo: 1 });
+    expect(componentAdded).toHaveBeenLastCalledWith(e, 'foo', 1);
+
+    e.bar = 2;
+    expect(componentAdded).toHaveBeenLastCalledWith(e, 'bar', 2);
+
+    e.bar = 3;
+    expect(componentChanged).toHaveBeenLastCalledWith(e, 'bar', 3, 2);
+
+    delete e.bar;
+    expect(componentRemoved).toHaveBeenLastCalledWith(e, 'bar', 3);
+
+    engine.removeEntity(e);
+    expect(componentRemoved).toHaveBeenLastCalledWith(e, 'foo', 1);
+  });
+
+  it(`should filter components`, () => {
+    const engine = new Engine();
+    const componentAdded = jest.fn();
+    engine.observe({ components: ['sprite'], componentAdded });
+
+    const e = engine.addEntity({ foo: 1 });
+    e.sprite = 'hero.png';
+
+    expect(componentAdded).toHaveBeenCalledTimes(1);
+    expect(componentAdded).toHaveBeenCalledWith(e, 'sprite', 'hero.png');
+  });
+
+  it(`should unsubscribe`, () => {
+    const engine = new Engine();
+    const entityAdded = jest.fn();
+    const unsubscribe = engine.observe({ entityAdded });
+
+    unsubscribe();
+    engine.addEntity({});
+
+    expect(entityAdded).not.toHaveBeenCalled();
+  });
+
+});
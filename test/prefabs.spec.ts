@@ -0,0 +1,88 @@
+import { Engine } from '../src';
+
+describe(`Prefabs`, () => {
+  let engine: Engine;
+
+  beforeEach(() => {
+    engine = new Engine();
+    engine.registerPrefab('unit', {
+      components: {
+        health  : { current: 100, max: 100 },
+        location: { x: 0, y: 0 },
+        tags    : ['unit'],
+      },
+    });
+    engine.registerPrefab('sword', { components: { damage: 10 } });
+    engine.registerPrefab('knight', {
+      extends   : 'unit',
+      components: { health: { max: 150 }, armor: 5 },
+      children  : { weapon: 'sword' },
+    });
+  });
+
+  it(`should spawn entity with prefab components`, () => {
+    const entity = engine.spawn('unit');
+
+    expect(engine.entities.has(entity)).toBe(true);
+    expect(entity.health).toEqual({ current: 100, max: 100 });
+  });
+
+  it(`should not share component objects between entities`, () => {
+    const e1 = engine.spawn('unit');
+    const e2 = engine.spawn('unit');
+
+    e1.location.x = 10;
+    e1.tags.push('hero');
+
+    expect(e2.location.x).toBe(0);
+    expect(e2.tags).toEqual(['unit']);
+  });
+
+  it(`should merge overrides`, () => {
+    const overrides = { location: { x: 5 }, name: 'bob' };
+    const entity = engine.spawn('unit', overrides);
+
+    expect(entity.location).toEqual({ x: 5, y: 0 });
+    expect(entity.name).toBe('bob');
+
+    entity.location.x = 1;
+    expect(overrides.location.x).toBe(5);
+  });
+
+  it(`should inherit components`, () => {
+    const entity = engine.spawn('knight');
+
+    expect(entity.health).toEqual({ current: 100, max: 150 });
+    expect(entity.armor).toBe(5);
+    expect(entity.tags).toEqual(['unit']);
+  });
+
+  it(`should spawn child prefabs`, () => {
+    const entity = engine.spawn('knight');
+
+    expect(engine.entities.has(entity.weapon)).toBe(true);
+    expect(entity.weapon.damage).toBe(10);
+    expect(engine.entities.size).toBe(2);
+  });
+
+  it(`should throw on unknown prefab`, () => {
+    expect(() => engine.spawn('dragon')).toThrow(`Unknown prefab "dragon"`);
+  });
+
+  it(`should throw on inheritance cycle`, () => {
+    engine.registerPrefab('a', { extends: 'b' });
+    engine.registerPrefab('b', { extends: 'a' });
+
+    expect(() => engine.spawn('a')).toThrow(`Prefab inheritance cycle: a -> b -> a`);
+  });
+
+  it(`should throw on children cycle without adding entities`, () => {
+    engine.registerPrefab('a', { children: { weapon: 'sword', x: 'b' } });
+    engine.registerPrefab('b', { children: { y: 'a' } });
+    engine.registerPrefab('self', { children: { x: 'self' } });
+
+    expect(() => engine.spawn('a')).toThrow(`Prefab children cycle: a -> b -> a`);
+    expect(() => engine.spawn('self')).toThrow(`Prefab children cycle: self -> self`);
+    expect(engine.entities.size).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+import { Engine, System } from '../src';
+
+describe(`Profiler`, () => {
+
+  it(`should not collect anything unless enabled`, () => {
+    const engine = new Engine();
+    engine.addHandler(() => {});
+
+    engine.update(0);
+
+    expect(engine.stats().frames).toBe(0);
+    expect(engine.stats().systems).toEqual([]);
+  });
+
+  it(`should measure systems and entity refreshes`, () => {
+    const engine = new Engine({ profile: true });
+    const system = engine.addSystem(Object.assign(new System({ movers: ['velocity'] }), { label: 'movement' }));
+    engine.addEntity({ velocity: 1 });
+    engine.addEntity({ velocity: 2 });
+
+    engine.update(0);
+    engine.update(0);
+
+    const stats = engine.stats();
+    expect(stats.frames).toBe(2);
+    expect(stats.refreshedEntities).toEqual({ min: 0, avg: 1, max: 2, p95: 2 });
+    expect(stats.refreshQueueSize.max).toBe(2);
+    expect(stats.systems).toEqual([{ system, name: 'movement', time: expect.any(Object) }]);
+    expect(stats.collections).toEqual([{
+      system,
+      name      : 'movement',
+      collection: 'movers',
+      size      : { min: 2, avg: 2, max: 2, p95: 2 },
+    }]);
+  });
+
+  it(`should keep a rolling window`, () => {
+    const engine = new Engine({ profile: true });
+
+    for (let i = 0; i < 200; i++) {
+      engine.update(0);
+    }
+
+    expect(engine.stats().frames).toBe(engine.profiler.windowSize);
+  });
+
+  it(`should export chrome trace`, () => {
+    const engine = new Engine({ profile: true });
+    engine.addSystem(Object.assign(new System(), { label: 'render' }));
+
+    engine.update(0);
+
+    const { traceEvents } = JSON.parse(engine.profiler.exportChromeTrace());
+    expect(traceEvents.map((x: any) => [x.name, x.ph])).toEqual([['render', 'X'], ['Frame 1', 'X']]);
+  });
+
+});
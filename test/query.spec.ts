@@ -0,0 +1,126 @@
+import { Engine, on_added, on_changed, related, tagged } from '../src';
+
+describe(`Query`, () => {
+  let engine: Engine;
+
+  beforeEach(() => {
+    engine = new Engine({ lazyEntityRefresh: false });
+  });
+
+  it(`should contain matching entities`, () => {
+    const e1 = engine.addEntity({ location: {}, velocity: {} });
+    const e2 = engine.addEntity({ location: {} });
+    const query = engine.query({ all: ['location'] });
+
+    expect(query.size).toBe(2);
+    expect([...query]).toEqual([e1, e2]);
+    expect(query.first()).toBe(e1);
+    expect(query.has(e2)).toBe(true);
+  });
+
+  it(`should support all, any and none`, () => {
+    const query = engine.query({
+      all : ['location'],
+      any : ['sprite', 'mesh'],
+      none: ['hidden', tagged('disabled')],
+    });
+    const sprite = engine.addEntity({ location: {}, sprite: {} });
+    const mesh = engine.addEntity({ location: {}, mesh: {} });
+    engine.addEntity({ location: {} });
+    engine.addEntity({ location: {}, sprite: {}, hidden: true });
+
+    expect([...query]).toEqual([sprite, mesh]);
+
+    engine.tag(mesh, 'disabled');
+    expect([...query]).toEqual([sprite]);
+  });
+
+  it(`should set up selectors nested in any and none`, () => {
+    const added = engine.query({ any: [on_added('a'), on_added('b')] });
+    const unchanged = engine.query({ all: ['hp'], none: [on_changed('hp')] });
+    const targeting = engine.query({ any: [related('targets'), 'x'] });
+
+    const e = engine.addEntity({ a: 1, hp: 10 });
+    const sizes: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      engine.update(0);
+      sizes.push(added.size);
+    }
+    expect(sizes).toEqual([1, 0, 0]);
+
+    expect(unchanged.has(e)).toBe(true);
+    e.hp = 5;
+    engine.update(0);
+    expect(unchanged.has(e)).toBe(false);
+    engine.update(0);
+    expect(unchanged.has(e)).toBe(true);
+
+    engine.relate(e, 'targets', engine.addEntity({}));
+    expect(targeting.has(e)).toBe(true);
+  });
+
+  it(`should be live and fire enter/exit callbacks`, () => {
+    const query = engine.query({ all: ['location'] });
+    const enter = jest.fn();
+    const exit = jest.fn();
+    query.onEnter(enter);
+    query.onExit(exit);
+
+    const e = engine.addEntity({ location: {} });
+    expect(enter).toHaveBeenCalledWith(e);
+    expect(query.size).toBe(1);
+
+    delete e.location;
+    expect(exit).toHaveBeenCalledWith(e);
+    expect(query.size).toBe(0);
+
+    e.location = {};
+    engine.removeEntity(e);
+    expect(exit).toHaveBeenCalledTimes(2);
+  });
+
+  it(`should share matching with systems`, () => {
+    const system = engine.addHandler(() => {}, { movers: ['location'] });
+    const query = engine.query({ all: ['location'] });
+    const e = engine.addEntity({ location: {} });
+
+    expect(query.has(e)).toBe(true);
+    expect((system.getEntities('movers') as Set<any>).has(e)).toBe(true);
+
+    query.dispose();
+    delete e.location;
+    expect((system.getEntities('movers') as Set<any>).has(e)).toBe(false);
+  });
+
+  it(`should share matching between identical descriptors`, () => {
+    const queries = (engine as any)._queryIndex.size;
+    const descriptor = () => ({ all: ['location'], any: ['sprite', 'mesh'], none: ['hidden'] });
+
+    const first = engine.query(descriptor());
+    const second = engine.query(descriptor());
+    expect((engine as any)._queryIndex.size).toBe(queries + 1);
+
+    first.dispose();
+    second.dispose();
+    expect((engine as any)._queryIndex.size).toBe(queries);
+
+    const keyIds = (engine as any)._queryIndex._keyIds.size;
+    for (let i = 0; i < 10; i++) {
+      engine.query(descriptor()).dispose();
+    }
+    expect((engine as any)._queryIndex._keyIds.size).toBe(keyIds);
+  });
+
+  it(`should stop tracking once disposed`, () => {
+    const query = engine.query({ all: ['location'] });
+    const enter = jest.fn();
+    query.onEnter(enter);
+
+    query.dispose();
+    engine.addEntity({ location: {} });
+
+    expect(query.disposed).toBe(true);
+    expect(query.size).toBe(0);
+    expect(enter).not.toHaveBeenCalled();
+  });
+});
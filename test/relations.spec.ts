@@ -0,0 +1,95 @@
+import { Engine, related, related_to } from '../src';
+
+describe(`Relations`, () => {
+  let engine: Engine;
+
+  beforeEach(() => {
+    engine = new Engine();
+  });
+
+  it(`should relate and unrelate entities`, () => {
+    const turret = engine.addEntity({});
+    const e1 = engine.addEntity({});
+    const e2 = engine.addEntity({});
+
+    engine.relate(turret, 'targets', e1);
+    engine.relate(turret, 'targets', e2);
+
+    expect(engine.hasRelation(turret, 'targets')).toBe(true);
+    expect(engine.hasRelation(turret, 'targets', e1)).toBe(true);
+    expect(engine.hasRelation(turret, 'likes')).toBe(false);
+    expect(engine.getRelated(turret, 'targets')).toEqual([e1, e2]);
+    expect(engine.getRelatedFrom(e1, 'targets')).toEqual([turret]);
+
+    engine.unrelate(turret, 'targets', e1);
+    expect(engine.getRelated(turret, 'targets')).toEqual([e2]);
+
+    engine.unrelate(turret, 'targets');
+    expect(engine.hasRelation(turret, 'targets')).toBe(false);
+    expect(engine.getRelatedFrom(e2, 'targets')).toEqual([]);
+  });
+
+  it(`should drop relations of removed entities`, () => {
+    const a = engine.addEntity({});
+    const b = engine.addEntity({});
+    engine.relate(a, 'targets', b);
+    engine.relate(b, 'likes', a);
+
+    engine.removeEntity(b);
+
+    expect(engine.hasRelation(a, 'targets')).toBe(false);
+    expect(engine.getRelatedFrom(a, 'likes')).toEqual([]);
+  });
+
+  it(`should keep relations through snapshot and serialization`, () => {
+    const ship = engine.addEntity({ name: 'ship' });
+    const station = engine.addEntity({ name: 'station' });
+    engine.relate(ship, 'docked_at', station);
+
+    const snapshot = engine.snapshot();
+    engine.unrelate(ship, 'docked_at');
+    engine.restore(snapshot);
+    expect(engine.hasRelation(ship, 'docked_at', station)).toBe(true);
+
+    const other = new Engine();
+    other.load(engine.serialize());
+    const [loadedShip, loadedStation] = [...other.entities];
+    expect(other.getRelated(loadedShip, 'docked_at')).toEqual([loadedStation]);
+  });
+
+  describe(`selectors`, () => {
+    it(`related() should update membership`, () => {
+      const system = engine.addHandler(() => {}, { aiming: [related('targets')] });
+      const entities = system.getEntities('aiming') as Set<any>;
+      const turret = engine.addEntity({});
+      const enemy = engine.addEntity({});
+      engine.update(0);
+      expect(entities.size).toBe(0);
+
+      engine.relate(turret, 'targets', enemy);
+      engine.update(0);
+      expect([...entities]).toEqual([turret]);
+
+      engine.removeEntity(enemy);
+      engine.update(0);
+      expect(entities.size).toBe(0);
+    });
+
+    it(`related_to() should match relation to specific entity`, () => {
+      const station = engine.addEntity({});
+      const system = engine.addHandler(() => {}, { docked: [related_to('docked_at', station)] });
+      const entities = system.getEntities('docked') as Set<any>;
+      const s1 = engine.addEntity({});
+      const s2 = engine.addEntity({});
+
+      engine.relate(s1, 'docked_at', station);
+      engine.relate(s2, 'docked_at', engine.addEntity({}));
+      engine.update(0);
+      expect([...entities]).toEqual([s1]);
+
+      engine.unrelate(s1, 'docked_at', station);
+      engine.update(0);
+      expect(entities.size).toBe(0);
+    });
+  });
+});
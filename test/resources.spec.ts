@@ -0,0 +1,62 @@
+import { Engine, System } from '../src';
+
+describe(`Resources`, () => {
+  let engine: Engine;
+
+  beforeEach(() => {
+    engine = new Engine();
+  });
+
+  it(`should insert, get and remove resources`, () => {
+    const config = { gravity: 9.8 };
+
+    expect(engine.resources.insert('config', config)).toBe(config);
+    expect(engine.resources.get('config')).toBe(config);
+    expect(engine.resources.has('config')).toBe(true);
+
+    expect(engine.resources.remove('config')).toBe(true);
+    expect(engine.resources.remove('config')).toBe(false);
+    expect(engine.resources.get('config')).toBeUndefined();
+  });
+
+  it(`should skip systems with missing resources`, () => {
+    const update = jest.fn();
+
+    class InputSystem extends System {
+      resources = ['input'];
+
+      update () {
+        update(this.getResource('input'));
+      }
+    }
+
+    engine.addSystem(new InputSystem());
+
+    engine.update(0);
+    expect(update).toHaveBeenCalledTimes(0);
+
+    engine.resources.insert('input', { jump: true });
+    engine.update(0);
+    expect(update).toHaveBeenCalledWith({ jump: true });
+
+    engine.resources.remove('input');
+    engine.update(0);
+    expect(update).toHaveBeenCalledTimes(1);
+  });
+
+  it(`should report insertion and removal to observers`, () => {
+    const resourceInserted = jest.fn();
+    const resourceRemoved = jest.fn();
+    engine.observe({ resourceInserted, resourceRemoved });
+
+    engine.resources.insert('camera', 1);
+    engine.resources.insert('camera', 2);
+    engine.resources.remove('camera');
+
+    expect(resourceInserted.mock.calls).toEqual([
+      ['camera', 1, undefined],
+      ['camera', 2, 1],
+    ]);
+    expect(resourceRemoved).toHaveBeenCalledWith('camera', 2);
+  });
+});
@@ -0,0 +1,127 @@
+import { Engine, Scene } from '../src';
+
+describe(`Scenes`, () => {
+  let engine: Engine;
+  let update: jest.Mock;
+
+  beforeEach(() => {
+    engine = new Engine();
+    update = jest.fn();
+
+    engine.scenes.register('level', {
+      enter: scene => {
+        scene.addEntity({ player: true });
+        scene.addHandler(update);
+      },
+    });
+    engine.scenes.register('menu', {
+      enter: scene => {
+        scene.addEntity({ button: true });
+      },
+    });
+  });
+
+  it(`should own entities and systems added on enter`, () => {
+    const scene = engine.scenes.activate('level');
+
+    expect(scene.entities.length).toBe(1);
+    expect(scene.systems.length).toBe(1);
+    expect(engine.entities.size).toBe(1);
+
+    engine.update(0);
+    expect(update).toHaveBeenCalledTimes(1);
+  });
+
+  it(`should remove entities and systems on unload`, () => {
+    const exit = jest.fn();
+    engine.scenes.register('exiting', { exit });
+    const scene = engine.scenes.activate('exiting');
+    scene.addEntity({});
+    engine.addEntity({ global: true });
+
+    engine.scenes.unload('exiting');
+
+    expect(exit).toHaveBeenCalledWith(scene);
+    expect(scene.state).toBe('unloaded');
+    expect(engine.entities.size).toBe(1);
+    expect(() => scene.addEntity({})).toThrow(`Scene "exiting" is unloaded`);
+  });
+
+  it(`should remove entities of child prefabs on unload`, () => {
+    engine.registerPrefab('gun', { components: { damage: 1 } });
+    engine.registerPrefab('ship', { children: { gun: 'gun' } });
+    const scene = engine.scenes.activate('menu');
+    scene.spawn('ship');
+    expect(scene.entities.length).toBe(3);
+
+    engine.scenes.unload('menu');
+
+    expect(engine.entities.size).toBe(0);
+  });
+
+  it(`should unload scene with system already removed from engine`, () => {
+    const level = engine.scenes.activate('level');
+    const global = engine.addHandler(() => {});
+    engine.removeSystem(level.systems[0]);
+
+    engine.scenes.unload('level');
+
+    expect((engine as any)._systems).toEqual([global]);
+  });
+
+  it(`should swap scenes`, () => {
+    const level = engine.scenes.activate('level');
+    const menu = engine.scenes.activate('menu');
+
+    expect(level.state).toBe('unloaded');
+    expect(engine.scenes.stack).toEqual([menu]);
+    expect([...engine.entities]).toEqual(menu.entities);
+  });
+
+  it(`should pause and resume scene systems`, () => {
+    const level = engine.scenes.activate('level');
+    const [system] = level.systems;
+
+    engine.scenes.pause('level');
+    engine.update(0);
+    expect(update).toHaveBeenCalledTimes(0);
+    expect(engine.entities.size).toBe(1);
+
+    engine.scenes.resume('level');
+    engine.update(0);
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(system.enabled).toBe(true);
+  });
+
+  it(`should pause scene below overlay until overlay is unloaded`, () => {
+    const level = engine.scenes.activate('level');
+    const menu = engine.scenes.activate('menu', { overlay: true });
+
+    expect(engine.scenes.stack).toEqual([level, menu]);
+    expect(engine.scenes.top).toBe(menu);
+    expect(level.state).toBe('paused');
+    expect(engine.entities.size).toBe(2);
+
+    engine.scenes.unload('menu');
+    expect(level.state).toBe('active');
+    expect(engine.entities.size).toBe(1);
+  });
+
+  it(`should keep scene below running with pauseBelow disabled`, () => {
+    const level = engine.scenes.activate('level');
+    engine.scenes.activate('menu', { overlay: true, pauseBelow: false });
+
+    engine.update(0);
+    expect(level.state).toBe('active');
+    expect(update).toHaveBeenCalledTimes(1);
+  });
+
+  it(`should validate scene names`, () => {
+    expect(() => engine.scenes.activate('unknown')).toThrow(`Unknown scene "unknown"`);
+    expect(() => engine.scenes.register('level', {})).toThrow(`Scene "level" is already registered`);
+
+    engine.scenes.activate('level');
+    expect(() => engine.scenes.activate('level', { overlay: true })).toThrow(`Scene "level" is already active`);
+    expect(engine.scenes.get('level')).toBeInstanceOf(Scene);
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  Engine,
+  IEntity,
+  System,
+  createMapCodec,
+  entityReferenceCodec,
+} from '../src';
+import { get_id } from '../src/helpers';
+
+class Vector {
+  constructor (public x: number, public y: number) {}
+}
+
+const vectorCodec = {
+  encode: (v: Vector) => [v.x, v.y],
+  decode: ([x, y]: number[]) => new Vector(x, y),
+};
+
+describe(`Serialization`, () => {
+
+  it(`should produce JSON-safe document`, () => {
+    const engine = new Engine();
+    engine.addEntity({ name: 'foo', stats: { hp: 10 } });
+
+    const doc = engine.serialize();
+
+    expect(JSON.parse(JSON.stringify(doc))).toEqual(doc);
+    expect(doc.entities).toEqual([{ id: 1, components: { name: 'foo', stats: { hp: 10 } } }]);
+  });
+
+  it(`should not share component objects with the document`, () => {
+    const engine = new Engine();
+    const e = engine.addEntity({ stats: { hp: 10 } });
+
+    const doc = engine.serialize();
+    e.stats.hp = 0;
+
+    expect(doc.entities[0].components.stats.hp).toBe(10);
+  });
+
+  it(`should throw for class instances without codec`, () => {
+    const engine = new Engine();
+    engine.addEntity({ location: new Vector(1, 2) });
+
+    expect(() => engine.serialize()).toThrow(`No codec registered for component "location"`);
+  });
+
+  it(`should throw for entity references without codec`, () => {
+    const engine = new Engine();
+    const a = engine.addEntity({ name: 'a' });
+    engine.addEntity({ target: a });
+
+    expect(() => engine.serialize()).toThrow(`No codec registered for component "target"`);
+  });
+
+  it(`should throw for values nested in plain objects without codec`, () => {
+    const engine = new Engine();
+    engine.addEntity({ inventory: { items: new Map([['hand', 'sword']]) } });
+
+    expect(() => engine.serialize()).toThrow(`No codec registered for component "inventory"`);
+  });
+
+  it(`should restore entities keeping their IDs`, () => {
+    const source = new Engine();
+    source.addEntity({ a: 1 });
+    const e2 = source.addEntity({ b: 2 });
+    source.removeEntity(source.getEntityById(1)!);
+
+    const target = new Engine();
+    const [loaded] = target.load(source.serialize());
+
+    expect(get_id(loaded)).toBe(get_id(e2));
+    expect(target.getEntityById(get_id(e2))).toBe(loaded);
+    expect(loaded.b).toBe(2);
+    expect(get_id(target.addEntity({}))).toBe(3);
+  });
+
+  it(`should match loaded entities against systems`, () => {
+    const source = new Engine();
+    source.addEntity({ a: 1 });
+
+    const target = new Engine();
+    const system = target.addSystem(new System({ default: ['a'] }));
+    const [loaded] = target.load(source.serialize());
+    target.update(0);
+
+    expect([...system.getEntities()]).toEqual([loaded]);
+  });
+
+  it(`should throw on ID collision`, () => {
+    const engine = new Engine();
+    engine.addEntity({});
+
+    expect(() => engine.load(engine.serialize())).toThrow(`Entity ID 1 is already taken`);
+  });
+
+  describe(`codecs`, () => {
+    it(`should encode class instances`, () => {
+      const source = new Engine();
+      source.codecs.register('location', vectorCodec);
+      source.addEntity({ location: new Vector(1, 2) });
+
+      const doc = source.serialize();
+      expect(doc.entities[0].components.location).toEqual([1, 2]);
+
+      const target = new Engine();
+      target.codecs.register('location', vectorCodec);
+      const [loaded] = target.load(doc);
+
+      expect(loaded.location).toBeInstanceOf(Vector);
+      expect(loaded.location).toEqual(new Vector(1, 2));
+    });
+
+    it(`should encode symbol keys under provided name`, () => {
+      const key = Symbol('secret');
+      const engine = new Engine();
+      engine.codecs.register(key, { encode: x => x, decode: x => x }, 'secret');
+      engine.addEntity({ [key]: 42, [Symbol('skipped')]: 1 });
+
+      const doc = engine.serialize();
+      expect(doc.entities[0].components).toEqual({ secret: 42 });
+
+      const [loaded] = new Engine().load(doc);
+      expect(loaded[key as any]).toBeUndefined();
+
+      const target = new Engine();
+      target.codecs.register(key, { encode: x => x, decode: x => x }, 'secret');
+      const [restored] = target.load(doc);
+      expect((restored as any)[key]).toBe(42);
+    });
+
+    it(`should encode entity references`, () => {
+      const source = new Engine();
+      source.codecs.register('target', entityReferenceCodec);
+      const enemy = source.addEntity({ name: 'enemy' });
+      source.addEntity({ name: 'hunter', target: enemy });
+
+      const target = new Engine();
+      target.codecs.register('target', entityReferenceCodec);
+      const [loadedEnemy, loadedHunter] = target.load(source.serialize());
+
+      expect(loadedHunter.target).toBe(loadedEnemy);
+    });
+
+    it(`should encode maps`, () => {
+      const source = new Engine();
+      const codec = createMapCodec<string, IEntity | null | undefined>(entityReferenceCodec);
+      source.codecs.register('inventory', codec);
+      const item = source.addEntity({ name: 'sword' });
+      source.addEntity({ inventory: new Map([['hand', item]]) });
+
+      const target = new Engine();
+      target.codecs.register('inventory', codec);
+      const [loadedItem, owner] = target.load(source.serialize());
+
+      expect(owner.inventory.get('hand')).toBe(loadedItem);
+    });
+  });
+
+});
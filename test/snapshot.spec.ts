@@ -0,0 +1,140 @@
+import { Engine, System, cloneComponent, getEntity } from '../src';
+import { get_id } from '../src/helpers';
+
+class Vector {
+  constructor (public x: number, public y: number) {}
+}
+
+describe(`Snapshot`, () => {
+
+  it(`should restore component values`, () => {
+    const engine = new Engine();
+    const e = engine.addEntity({ location: new Vector(1, 2), hp: 10 });
+
+    const snapshot = engine.snapshot();
+    e.location.x = 100;
+    e.hp = 0;
+    e.extra = true;
+    engine.restore(snapshot);
+
+    expect(e.location).toEqual(new Vector(1, 2));
+    expect(e.location).toBeInstanceOf(Vector);
+    expect(e.hp).toBe(10);
+    expect('extra' in e).toBe(false);
+  });
+
+  it(`should be restorable multiple times`, () => {
+    const engine = new Engine();
+    const e = engine.addEntity({ location: { x: 1 } });
+
+    const snapshot = engine.snapshot();
+    for (let i = 0; i < 3; i++) {
+      e.location.x += 10;
+      engine.restore(snapshot);
+      expect(e.location.x).toBe(1);
+    }
+  });
+
+  it(`should restore entity set and ID counter`, () => {
+    const engine = new Engine();
+    const e1 = engine.addEntity({});
+
+    const snapshot = engine.snapshot();
+    const e2 = engine.addEntity({});
+    engine.removeEntity(e1);
+    engine.restore(snapshot);
+
+    expect([...engine.entities]).toEqual([e1]);
+    expect(engine.getEntityById(get_id(e1))).toBe(e1);
+    expect(engine.getEntityById(get_id(e2))).toBeUndefined();
+    expect(get_id(engine.addEntity({}))).toBe(get_id(e2));
+  });
+
+  it(`should restore system membership without firing callbacks`, () => {
+    const engine = new Engine({ lazyEntityRefresh: false });
+    const system = engine.addSystem(new System({ default: ['foo'] }));
+    const e1 = engine.addEntity({ foo: 1 });
+    const e2 = engine.addEntity({});
+
+    const snapshot = engine.snapshot();
+    const onEntityAdded = system.onEntityAdded = jest.fn();
+    const onEntityRemoved = system.onEntityRemoved = jest.fn();
+
+    delete e1.foo;
+    e2.foo = 2;
+    onEntityAdded.mockClear();
+    onEntityRemoved.mockClear();
+
+    engine.restore(snapshot);
+
+    expect([...system.getEntities()]).toEqual([e1]);
+    expect(onEntityAdded).not.toHaveBeenCalled();
+    expect(onEntityRemoved).not.toHaveBeenCalled();
+
+    delete e1.foo;
+    expect([...system.getEntities()]).toEqual([]);
+  });
+
+  it(`should rebuild collections of systems added after snapshot`, () => {
+    const engine = new Engine({ lazyEntityRefresh: false });
+    const existing = engine.addSystem(new System({ default: ['a'] }));
+    const kept = engine.addEntity({ a: 1 });
+
+    const snapshot = engine.snapshot();
+    engine.addEntity({ a: 2 });
+    const added = engine.addSystem(new System({ default: ['a'] }));
+
+    engine.restore(snapshot);
+
+    expect([...existing.getEntities()]).toEqual([kept]);
+    expect([...added.getEntities()]).toEqual([kept]);
+  });
+
+  it(`should keep entity references`, () => {
+    const engine = new Engine();
+    const target = engine.addEntity({});
+    const e = engine.addEntity({ target });
+
+    const snapshot = engine.snapshot();
+    e.target = null;
+    engine.restore(snapshot);
+
+    expect(e.target).toBe(target);
+  });
+
+  it(`should use codec clone() when provided`, () => {
+    const engine = new Engine();
+    const clone = jest.fn((x: number[]) => [...x]);
+    engine.codecs.register('list', { encode: x => x, decode: x => x, clone });
+    engine.addEntity({ list: [1] });
+
+    engine.snapshot();
+
+    expect(clone).toHaveBeenCalledWith([1]);
+  });
+
+  describe(`cloneComponent()`, () => {
+    it(`should deep copy containers`, () => {
+      const entity = getEntity({});
+      const value = { list: [{ a: 1 }], map: new Map([['k', { b: 2 }]]), entity };
+
+      const copy = cloneComponent(value);
+
+      expect(copy).toEqual(value);
+      expect(copy.list[0]).not.toBe(value.list[0]);
+      expect(copy.map.get('k')).not.toBe(value.map.get('k'));
+      expect(copy.entity).toBe(entity);
+    });
+
+    it(`should preserve circular references`, () => {
+      const node: any = { children: [] };
+      node.children.push({ parent: node });
+
+      const copy = cloneComponent(node);
+
+      expect(copy).not.toBe(node);
+      expect(copy.children[0].parent).toBe(copy);
+    });
+  });
+
+});
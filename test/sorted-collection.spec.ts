@@ -0,0 +1,96 @@
+import { Engine, IEntity, SortedEntitySet, sorted } from '../src';
+
+describe(`Sorted collections`, () => {
+  let engine: Engine;
+
+  beforeEach(() => {
+    engine = new Engine();
+  });
+
+  it(`should keep entities ordered by key component`, () => {
+    const system = engine.addHandler(() => {}, { sprites: sorted(['sprite'], { key: 'z' }) });
+    const e1 = engine.addEntity({ sprite: 1, z: 5 });
+    const e2 = engine.addEntity({ sprite: 2, z: 1 });
+    const e3 = engine.addEntity({ sprite: 3, z: 3 });
+    engine.update(0);
+
+    expect([...system.getEntities('sprites')]).toEqual([e2, e3, e1]);
+  });
+
+  it(`should keep insertion order of equal keys`, () => {
+    const system = engine.addHandler(() => {}, { sprites: sorted('sprite', { key: 'z' }) });
+    const e1 = engine.addEntity({ sprite: 1, z: 1 });
+    const e2 = engine.addEntity({ sprite: 2, z: 0 });
+    const e3 = engine.addEntity({ sprite: 3, z: 1 });
+    engine.update(0);
+
+    expect([...system.getEntities('sprites')]).toEqual([e2, e1, e3]);
+  });
+
+  it(`should reorder when watched sort key changes`, () => {
+    const system = engine.addHandler(() => {}, { sprites: sorted(['sprite'], { key: 'z' }) });
+    const e1 = engine.addEntity({ sprite: 1, z: 1 });
+    const e2 = engine.addEntity({ sprite: 2, z: 2 });
+    engine.update(0);
+
+    e1.z = 3;
+    engine.update(0);
+
+    expect([...system.getEntities('sprites')]).toEqual([e2, e1]);
+  });
+
+  it(`should support comparator, key function and descending order`, () => {
+    const system = engine.addHandler(() => {}, {
+      byComparator: sorted(['priority'], { compare: (a, b) => b.priority - a.priority, watch: ['priority'] }),
+      byFunction  : sorted(['priority'], { key: e => -e.priority, descending: true }),
+    });
+    const low = engine.addEntity({ priority: 1 });
+    const high = engine.addEntity({ priority: 10 });
+    engine.update(0);
+
+    expect([...system.getEntities('byComparator')]).toEqual([high, low]);
+    expect([...system.getEntities('byFunction')]).toEqual([low, high]);
+
+    low.priority = 20;
+    engine.update(0);
+    expect([...system.getEntities('byComparator')]).toEqual([low, high]);
+  });
+
+  it(`should iterate in order inside update and tolerate removal`, () => {
+    const visited: number[] = [];
+    engine.addHandler(function () {
+      for (const e of this.getEntities('sprites')) {
+        visited.push(e.z);
+        engine.removeEntity(e);
+      }
+    }, { sprites: sorted(['sprite'], { key: 'z', descending: true }) });
+
+    engine.addEntity({ sprite: 1, z: 1 });
+    engine.addEntity({ sprite: 1, z: 3 });
+    engine.addEntity({ sprite: 1, z: 2 });
+    engine.update(0);
+
+    expect(visited).toEqual([3, 2, 1]);
+  });
+
+  it(`should keep running iteration stable while collection changes`, () => {
+    const set = new SortedEntitySet({ key: 'z' });
+    const [a, b, c] = [1, 2, 3].map(z => engine.addEntity({ z }));
+    set.add(a).add(c);
+
+    const visited: IEntity[] = [];
+    for (const e of set) {
+      visited.push(e);
+      set.add(b);
+      set.delete(c);
+    }
+    expect(visited).toEqual([a, c]);
+    expect([...set]).toEqual([a, b]);
+
+    const iterator = set.values();
+    iterator.next();
+    set.delete(a);
+    expect(iterator.next().value).toBe(b);
+    expect([...set]).toEqual([b]);
+  });
+});
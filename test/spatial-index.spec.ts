@@ -0,0 +1,107 @@
+import { Engine, SpatialIndex, within_region } from '../src';
+
+describe(`Spatial index`, () => {
+  let engine: Engine;
+  let index: SpatialIndex;
+
+  beforeEach(() => {
+    engine = new Engine({ lazyEntityRefresh: false });
+    index = new SpatialIndex(engine, { component: 'position', cellSize: 10 });
+  });
+
+  it(`should track entities with position`, () => {
+    const existing = new Engine({ lazyEntityRefresh: false });
+    const e = existing.addEntity({ position: { x: 1, y: 1 } });
+    const late = new SpatialIndex(existing);
+    existing.addEntity({ foo: 1 });
+
+    expect(late.size).toBe(1);
+    expect(late.queryRadius(0, 0, 5)).toEqual([e]);
+  });
+
+  it(`should query radius and rect`, () => {
+    const a = engine.addEntity({ position: { x: 0, y: 0 } });
+    const b = engine.addEntity({ position: { x: 15, y: 0 } });
+    const c = engine.addEntity({ position: { x: 40, y: 40 } });
+
+    expect(index.queryRadius(0, 0, 20)).toEqual([a, b]);
+    expect(index.queryRadius(0, 0, 10)).toEqual([a]);
+    expect(index.queryRect(10, -5, 40, 50)).toEqual([b, c]);
+  });
+
+  it(`should return nearest entities`, () => {
+    const a = engine.addEntity({ position: { x: 0, y: 0 } });
+    const b = engine.addEntity({ position: { x: 100, y: 0 } });
+    const c = engine.addEntity({ position: { x: 30, y: 0 } });
+
+    expect(index.nearest(90, 0)).toEqual([b]);
+    expect(index.nearest(0, 0, 2)).toEqual([a, c]);
+    expect(index.nearest(0, 0, 5)).toEqual([a, c, b]);
+  });
+
+  it(`should find nearest entities far away from the point`, () => {
+    index = new SpatialIndex(engine, { component: 'position', cellSize: 1 });
+    const a = engine.addEntity({ position: { x: 4000, y: 4000 } });
+    const b = engine.addEntity({ position: { x: -5000, y: 0 } });
+    engine.addEntity({ position: { x: 6000, y: 6000 } });
+
+    expect(index.nearest(0, 0, 2)).toEqual([b, a]);
+    expect(index.queryRect(-5000, -5000, 10000, 10000)).toEqual([a, b]);
+  });
+
+  it(`should skip non-finite positions`, () => {
+    const a = engine.addEntity({ position: { x: 0, y: 0 } });
+    engine.addEntity({ position: { x: NaN, y: 0 } });
+    engine.addEntity({ position: { x: Infinity, y: 0 } });
+
+    expect(index.size).toBe(1);
+    expect(index.nearest(0, 0, 3)).toEqual([a]);
+  });
+
+  it(`should follow reassigned position and removal`, () => {
+    const e = engine.addEntity({ position: { x: 0, y: 0 } });
+
+    e.position = { x: 100, y: 100 };
+    expect(index.queryRadius(0, 0, 10)).toEqual([]);
+    expect(index.queryRadius(100, 100, 1)).toEqual([e]);
+
+    e.position.x = 0;
+    e.position.y = 0;
+    index.update(e);
+    expect(index.queryRadius(0, 0, 1)).toEqual([e]);
+
+    engine.removeEntity(e);
+    expect(index.size).toBe(0);
+  });
+
+  it(`should not index entities without position value`, () => {
+    const e = engine.addEntity({ position: undefined });
+    expect(index.size).toBe(0);
+
+    e.position = { x: 1, y: 1 };
+    expect(index.queryRadius(0, 0, 5)).toEqual([e]);
+
+    e.position = null;
+    expect(index.size).toBe(0);
+    expect(index.queryRadius(0, 0, 5)).toEqual([]);
+  });
+
+  it(`within_region() should match entities in region`, () => {
+    const region = { x: 0, y: 0, radius: 10 };
+    const system = engine.addHandler(() => {}, { near: ['position', within_region(index, region)] });
+    const near = system.getEntities('near') as Set<any>;
+    const e = engine.addEntity({ position: { x: 5, y: 5 } });
+
+    expect(near.has(e)).toBe(true);
+
+    e.position = { x: 50, y: 50 };
+    expect(near.has(e)).toBe(false);
+  });
+
+  it(`should stop tracking once disposed`, () => {
+    index.dispose();
+    engine.addEntity({ position: { x: 0, y: 0 } });
+
+    expect(index.size).toBe(0);
+  });
+});
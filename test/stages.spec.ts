@@ -0,0 +1,86 @@
+import { Engine, SimplifiedSystem, System } from '../src';
+
+describe(`Stages`, () => {
+
+  const createSystem = (stage: string, log: string[], requirements = null) => {
+    const system = new class extends System {
+      update () {
+        log.push(stage);
+      }
+    }(requirements);
+    system.stage = stage;
+    return system;
+  };
+
+  it(`should run systems in stage order`, () => {
+    const engine = new Engine();
+    const log: string[] = [];
+
+    engine.addSystem(createSystem('render', log));
+    engine.addSystem(createSystem('update', log));
+    engine.addSystem(createSystem('preUpdate', log));
+    engine.addSystem(createSystem('postUpdate', log));
+
+    engine.update(0);
+
+    expect(log).toEqual(['preUpdate', 'update', 'postUpdate', 'render']);
+  });
+
+  it(`should accept custom stage order`, () => {
+    const engine = new Engine({ stages: ['input', 'logic'] });
+    const log: string[] = [];
+
+    engine.addSystem(createSystem('logic', log));
+    engine.addSystem(createSystem('input', log));
+
+    engine.update(0);
+    expect(log).toEqual(['input', 'logic']);
+
+    engine.setStageOrder(['logic', 'input']);
+    engine.update(0);
+    expect(log).toEqual(['input', 'logic', 'logic', 'input']);
+  });
+
+  it(`should reject unknown stage`, () => {
+    const engine = new Engine();
+
+    expect(() => engine.addSystem(createSystem('foo', []))).toThrow(`Unknown stage "foo"`);
+    expect(() => engine.runStage('foo')).toThrow(`Unknown stage "foo"`);
+  });
+
+  it(`should not allow dropping stage in use`, () => {
+    const engine = new Engine();
+    engine.addSystem(createSystem('render', []));
+
+    expect(() => engine.setStageOrder(['update'])).toThrow();
+  });
+
+  it(`should make entities spawned in earlier stage visible to later stages`, () => {
+    const engine = new Engine({ lazyEntityAdd: true, lazyEntityRefresh: true });
+    const handler = jest.fn();
+
+    const spawner = new SimplifiedSystem(function () {
+      this.getEngine().addEntity({ foo: true });
+    });
+    spawner.stage = 'preUpdate';
+    engine.addSystem(spawner);
+    engine.addHandler(handler, { default: ['foo'] });
+
+    engine.update(0);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it(`should run a single stage on demand`, () => {
+    const engine = new Engine();
+    const log: string[] = [];
+
+    engine.addSystem(createSystem('update', log));
+    engine.addSystem(createSystem('render', log));
+
+    engine.runStage('render');
+
+    expect(log).toEqual(['render']);
+  });
+
+});
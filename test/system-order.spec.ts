@@ -0,0 +1,75 @@
+import { Engine, System } from '../src';
+
+describe(`Systems ordering`, () => {
+  const log: string[] = [];
+
+  class Logged extends System {
+    update () {
+      log.push(this.label ?? this.constructor.name);
+    }
+  }
+
+  class Physics extends Logged {}
+  class Render extends Logged {
+    runAfter = [Physics];
+  }
+  class Input extends Logged {
+    runBefore = [Physics];
+  }
+
+  beforeEach(() => {
+    log.length = 0;
+  });
+
+  it(`should respect runBefore / runAfter constraints`, () => {
+    const engine = new Engine();
+
+    engine.addSystemClass(Render);
+    engine.addSystemClass(Physics);
+    engine.addSystemClass(Input);
+
+    engine.update(0);
+
+    expect(log).toEqual(['Input', 'Physics', 'Render']);
+  });
+
+  it(`should match labels`, () => {
+    const engine = new Engine();
+
+    const late = new Logged();
+    late.label = 'late';
+    late.runAfter = ['early'];
+    const early = new Logged();
+    early.label = 'early';
+
+    engine.addSystem(late);
+    engine.addSystem(early);
+    engine.update(0);
+
+    expect(log).toEqual(['early', 'late']);
+  });
+
+  it(`should keep order of addition and priority for ties`, () => {
+    const engine = new Engine();
+
+    const systems = ['a', 'b', 'c'].map(label => Object.assign(new Logged(), { label }));
+    systems[2].priority = 1;
+    systems.forEach(system => engine.addSystem(system));
+
+    engine.update(0);
+
+    expect(log).toEqual(['c', 'a', 'b']);
+  });
+
+  it(`should report cycles naming involved systems`, () => {
+    const engine = new Engine();
+
+    const a = Object.assign(new Logged(), { label: 'a', runBefore: ['b'] });
+    const b = Object.assign(new Logged(), { label: 'b', runBefore: ['a'] });
+
+    engine.addSystem(a);
+
+    expect(() => engine.addSystem(b)).toThrow(`Systems ordering contains a cycle: a -> b -> a`);
+    expect((engine as any)._systems).toEqual([a]);
+  });
+});
@@ -0,0 +1,93 @@
+import { Engine, TAGS, tagged } from '../src';
+
+describe(`Tags`, () => {
+  let engine: Engine;
+
+  beforeEach(() => {
+    engine = new Engine();
+  });
+
+  it(`should tag and untag entities`, () => {
+    const e = engine.addEntity({});
+
+    engine.tag(e, 'enemy');
+    engine.tag(e, 'flying');
+
+    expect(engine.hasTag(e, 'enemy')).toBe(true);
+    expect(engine.hasTag(e, 'boss')).toBe(false);
+    expect(engine.getTags(e)).toEqual(['enemy', 'flying']);
+
+    engine.untag(e, 'enemy');
+    expect(engine.hasTag(e, 'enemy')).toBe(false);
+    expect(engine.getTags(e)).toEqual(['flying']);
+  });
+
+  it(`should not expose tags as components`, () => {
+    const e = engine.addEntity({ foo: 1 });
+    engine.tag(e, 'enemy');
+
+    expect(Object.keys(e)).toEqual(['foo']);
+    expect('enemy' in e).toBe(false);
+  });
+
+  it(`should support more tags than bits in a word`, () => {
+    const e = engine.addEntity({});
+    for (let i = 0; i < 40; i++) {
+      engine.tag(e, `tag${i}`);
+    }
+    engine.untag(e, 'tag35');
+
+    expect(e[TAGS]!.length).toBe(2);
+    expect(engine.hasTag(e, 'tag39')).toBe(true);
+    expect(engine.hasTag(e, 'tag35')).toBe(false);
+    expect(engine.getTags(e).length).toBe(39);
+  });
+
+  it(`should match tagged() requirements`, () => {
+    const system = engine.addHandler(() => {}, {
+      enemies       : [tagged('enemy')],
+      flyingEnemies : ['position', tagged('enemy', 'flying')],
+    });
+    const enemies = system.getEntities('enemies') as Set<any>;
+    const flyingEnemies = system.getEntities('flyingEnemies') as Set<any>;
+
+    const e = engine.addEntity({ position: {} });
+    engine.tag(e, 'enemy');
+    engine.update(0);
+    expect([...enemies]).toEqual([e]);
+    expect(flyingEnemies.size).toBe(0);
+
+    engine.tag(e, 'flying');
+    engine.update(0);
+    expect([...flyingEnemies]).toEqual([e]);
+
+    engine.untag(e, 'enemy');
+    engine.update(0);
+    expect(enemies.size).toBe(0);
+    expect(flyingEnemies.size).toBe(0);
+  });
+
+  it(`should drop tags on removal`, () => {
+    const e = engine.addEntity({});
+    engine.tag(e, 'enemy');
+
+    engine.removeEntity(e);
+
+    expect(e[TAGS]).toBeUndefined();
+  });
+
+  it(`should keep tags through snapshot and serialization`, () => {
+    const e = engine.addEntity({});
+    engine.tag(e, 'enemy');
+
+    const snapshot = engine.snapshot();
+    engine.untag(e, 'enemy');
+    engine.restore(snapshot);
+    expect(engine.hasTag(e, 'enemy')).toBe(true);
+
+    const other = new Engine();
+    other.tags.getBit('unrelated');
+    const [loaded] = other.load(engine.serialize());
+    expect(other.getTags(loaded)).toEqual(['enemy']);
+  });
+});
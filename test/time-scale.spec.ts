@@ -0,0 +1,104 @@
+import { Engine, System } from '../src';
+
+describe(`Pause and time scale`, () => {
+  let engine: Engine;
+
+  beforeEach(() => {
+    engine = new Engine();
+  });
+
+  it(`should expose scaled and unscaled delta`, () => {
+    engine.timeScale = 0.5;
+    engine.update(2);
+
+    expect(engine.dt).toBe(1);
+    expect(engine.unscaledDt).toBe(2);
+
+    engine.pause();
+    expect(engine.paused).toBe(true);
+    expect(engine.dt).toBe(0);
+    expect(engine.unscaledDt).toBe(2);
+  });
+
+  it(`should feed systems delta scaled by engine and system time scales`, () => {
+    const deltas: Record<string, number> = {};
+    const track = (name: string, setup: Partial<System> = {}) => {
+      const system = engine.addHandler(dt => { deltas[name] = dt; });
+      Object.assign(system, setup);
+    };
+
+    track('default');
+    track('halved', { timeScale: 0.5 });
+    track('unscaled', { unscaledTime: true });
+
+    engine.timeScale = 0.1;
+    engine.update(10);
+
+    expect(deltas).toEqual({ default: 1, halved: 0.5, unscaled: 10 });
+  });
+
+  it(`should skip systems while paused unless they ignore pause`, () => {
+    const game = jest.fn();
+    const ui = jest.fn();
+    engine.addHandler(game);
+    const uiSystem = engine.addHandler(ui);
+    uiSystem.ignorePause = true;
+    uiSystem.unscaledTime = true;
+
+    engine.pause();
+    engine.update(1);
+
+    expect(game).not.toHaveBeenCalled();
+    expect(ui).toHaveBeenCalledWith(1);
+
+    engine.resume();
+    engine.update(1);
+    expect(game).toHaveBeenCalledWith(1);
+  });
+
+  it(`should scale amount of fixed steps`, () => {
+    engine = new Engine({ fixedTimeStep: 1, maxSubSteps: 10 });
+    const deltas: number[] = [];
+    const system = engine.addHandler(dt => { deltas.push(dt); });
+    system.fixedStep = true;
+
+    engine.timeScale = 2;
+    engine.update(2);
+    expect(deltas).toEqual([1, 1, 1, 1]);
+
+    engine.pause();
+    engine.update(2);
+    expect(deltas.length).toBe(4);
+  });
+
+  it(`should run fixed step systems ignoring pause with unscaled time`, () => {
+    engine = new Engine({ fixedTimeStep: 1, maxSubSteps: 10 });
+    const game = jest.fn();
+    const ui = jest.fn();
+    engine.addHandler(game).fixedStep = true;
+    const uiSystem = engine.addHandler(ui);
+    uiSystem.fixedStep = true;
+    uiSystem.ignorePause = true;
+
+    engine.update(0.5);
+    engine.timeScale = 0.5;
+    engine.pause();
+    for (let i = 0; i < 10; i++) {
+      engine.update(1);
+    }
+
+    expect(game).not.toHaveBeenCalled();
+    expect(ui).toHaveBeenCalledTimes(10);
+    expect(engine.alpha).toBe(0.5);
+  });
+
+  it(`should keep processing entities while paused`, () => {
+    const system = engine.addHandler(() => {}, { items: ['item'] });
+    engine.pause();
+
+    const e = engine.addEntity({ item: true });
+    engine.update(1);
+
+    expect([...system.getEntities('items')]).toEqual([e]);
+  });
+});
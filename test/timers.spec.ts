@@ -0,0 +1,132 @@
+import { Engine } from '../src';
+
+describe(`Timers`, () => {
+  let engine: Engine;
+
+  beforeEach(() => {
+    engine = new Engine();
+  });
+
+  it(`should call scheduled callback once after delay`, () => {
+    const fn = jest.fn();
+    const timer = engine.schedule(1, fn);
+
+    engine.update(0.5);
+    expect(fn).not.toHaveBeenCalled();
+
+    engine.update(0.5);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(timer.active).toBe(false);
+
+    engine.update(1);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it(`should repeat callback every interval`, () => {
+    const fn = jest.fn();
+    engine.every(1, fn);
+
+    engine.update(1);
+    engine.update(2.5);
+
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(() => engine.every(0, fn)).toThrow(`Timer interval has to be positive, got 0`);
+  });
+
+  it(`should fire in order of due time`, () => {
+    const calls: string[] = [];
+    engine.schedule(2, () => calls.push('late'));
+    engine.schedule(1, () => calls.push('early'));
+
+    engine.update(5);
+
+    expect(calls).toEqual(['early', 'late']);
+  });
+
+  it(`should cancel timers`, () => {
+    const fn = jest.fn();
+    const timer = engine.every(1, fn);
+
+    engine.update(1);
+    timer.cancel();
+    engine.update(1);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(engine.timers.size).toBe(0);
+  });
+
+  it(`should follow scaled engine time`, () => {
+    const fn = jest.fn();
+    engine.schedule(1, fn);
+
+    engine.timeScale = 0.5;
+    engine.update(1);
+    expect(fn).not.toHaveBeenCalled();
+
+    engine.pause();
+    engine.update(10);
+    expect(fn).not.toHaveBeenCalled();
+
+    engine.resume();
+    engine.update(1);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it(`should fire timers scheduled by callbacks on later updates`, () => {
+    const fn = jest.fn();
+    engine.schedule(0, () => engine.schedule(0, fn));
+
+    engine.update(0);
+    expect(fn).not.toHaveBeenCalled();
+
+    engine.update(0);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  describe(`lifetime`, () => {
+    beforeEach(() => {
+      engine = new Engine({ lifetimeComponent: 'lifetime' });
+    });
+
+    it(`should remove entity once lifetime expires`, () => {
+      const e = engine.addEntity({ lifetime: 2.5 });
+
+      engine.update(1);
+      expect(e.lifetime).toBe(1.5);
+
+      engine.update(1);
+      expect(engine.entities.has(e)).toBe(true);
+
+      engine.update(1);
+      expect(engine.entities.has(e)).toBe(false);
+    });
+
+    it(`should use configured component`, () => {
+      engine = new Engine({ lifetimeComponent: 'ttl' });
+      const e = engine.addEntity({ ttl: 1, lifetime: 0 });
+
+      engine.update(1);
+
+      expect(engine.entities.has(e)).toBe(false);
+    });
+
+    it(`should ignore non-numeric values`, () => {
+      const e = engine.addEntity({ lifetime: 'forever' });
+
+      engine.update(1);
+
+      expect(e.lifetime).toBe('forever');
+      expect(engine.entities.has(e)).toBe(true);
+    });
+
+    it(`should be disabled by default`, () => {
+      engine = new Engine();
+      const e = engine.addEntity({ lifetime: 1 });
+
+      engine.update(2);
+
+      expect(e.lifetime).toBe(1);
+      expect(engine.entities.has(e)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+// Compile-time checks of ComponentMap inference. Augmentation is global,
+// so these live outside of jest specs in their own project.
+import { System, TComponentRequirements, TEntityOf } from '../../src';
+
+declare module '../../src/component-map' {
+  interface ComponentMap {
+    location: { x: number, y: number };
+    velocity: { x: number, y: number };
+  }
+}
+
+type Assert<T extends true> = T;
+type IsExact<A, B> = [A] extends [B] ? [B] extends [A] ? true : false : false;
+type IsAssignable<A, B> = [A] extends [B] ? true : false;
+
+type TMovers = { movers: ['location', 'velocity'] };
+
+class Movement extends System<TMovers> {
+  constructor () {
+    super({ movers: ['location', 'velocity'] });
+  }
+
+  update (dt: number) {
+    for (const e of this.entities.movers) {
+      type _location = Assert<IsExact<typeof e.location, { x: number, y: number }>>;
+      e.location.x += e.velocity.x * dt;
+    }
+  }
+}
+
+export const movement = new Movement();
+
+type _entityOf = Assert<IsExact<TEntityOf<['velocity']>['velocity'], { x: number, y: number }>>;
+
+// Typos in component names are rejected
+type _typo = Assert<IsAssignable<{ movers: ['locaton'] }, TComponentRequirements> extends false ? true : false>;
+
+// Constructor and setRequirements() accept only requirements matching the type parameter
+type TRequirementsArgument = Parameters<System<TMovers>['setRequirements']>[0];
+type _matching = Assert<IsAssignable<{ movers: ['location', 'velocity'] }, TRequirementsArgument>>;
+type _typoArgument = Assert<IsAssignable<{ movers: ['locaton', 'velocity'] }, TRequirementsArgument> extends false ? true : false>;
+type _driftArgument = Assert<IsAssignable<{ movers: ['velocity'] }, TRequirementsArgument> extends false ? true : false>;